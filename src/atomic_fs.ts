@@ -0,0 +1,49 @@
+import fs from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+
+// Crash-safe file primitives: a reader sees either the old or the new file,
+// never a torn write, and completed renames/unlinks survive a power loss.
+
+/**
+ * Writes through a dot-prefixed temp file in the same directory (so ticket
+ * globs never see it), fsyncs it, then renames it over the target.
+ */
+export function writeFileAtomic(filePath: string, content: string) {
+  const dir = path.dirname(filePath);
+  const suffix = `${process.pid}.${randomBytes(4).toString("hex")}`;
+  const tempPath = path.join(dir, `.${path.basename(filePath)}.${suffix}.tmp`);
+
+  const fd = fs.openSync(tempPath, "w");
+  try {
+    fs.writeFileSync(fd, content, "utf8");
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  try {
+    fs.renameSync(tempPath, filePath);
+  } catch (err) {
+    fs.rmSync(tempPath, { force: true });
+    throw err;
+  }
+  fsyncDir(dir);
+}
+
+export function removeFileDurable(filePath: string) {
+  fs.rmSync(filePath, { force: true });
+  fsyncDir(path.dirname(filePath));
+}
+
+export function fsyncDir(dir: string) {
+  let fd: number | null = null;
+  try {
+    fd = fs.openSync(dir, "r");
+    fs.fsyncSync(fd);
+  } catch {
+    // Directory fsync is unsupported on some platforms (e.g. Windows).
+  } finally {
+    if (fd !== null) fs.closeSync(fd);
+  }
+}
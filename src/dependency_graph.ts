@@ -0,0 +1,156 @@
+// The depends_on graph between tickets. Edges point from a ticket to the
+// tickets it depends on; "ancestors" are a ticket's transitive dependencies
+// and "descendants" the tickets that (transitively) depend on it.
+
+export type DependencyNode = {
+  id: string;
+  title: string;
+  status: string;
+  epic: string;
+  depends_on: string[];
+  /** The ticket is in a terminal status, so it no longer blocks anything. */
+  finished: boolean;
+};
+
+export type DependencyGraph = Map<string, DependencyNode>;
+
+export function buildDependencyGraph(nodes: DependencyNode[]): DependencyGraph {
+  const graph: DependencyGraph = new Map();
+  // First ticket wins on duplicate ids, like id lookups.
+  for (const node of nodes) {
+    if (node.id && !graph.has(node.id)) graph.set(node.id, node);
+  }
+  return graph;
+}
+
+/** Issues with one ticket's depends_on: unknown ids, cycles, unfinished dependencies of a finished ticket. */
+export function dependencyIssues(graph: DependencyGraph, id: string): string[] {
+  const node = graph.get(id);
+  if (!node) return [];
+  const issues: string[] = [];
+
+  const missing = node.depends_on.filter((dependency) => !graph.has(dependency));
+  if (missing.length > 0) {
+    issues.push(`depends_on references unknown tickets: ${missing.join(", ")}`);
+  }
+
+  const cycle = findCycle(graph, id);
+  if (cycle) {
+    issues.push(`depends_on cycle: ${cycle.join(" → ")}`);
+  }
+
+  if (node.finished) {
+    const open = node.depends_on.filter((dependency) => {
+      const target = graph.get(dependency);
+      return target !== undefined && !target.finished;
+    });
+    if (open.length > 0) {
+      issues.push(
+        `Finished ticket depends on unfinished tickets: ${open
+          .map((dependency) => `${dependency} (${graph.get(dependency)!.status})`)
+          .join(", ")}`,
+      );
+    }
+  }
+
+  return issues;
+}
+
+/** The shortest path from `id` back to itself through depends_on, or null. */
+export function findCycle(graph: DependencyGraph, id: string): string[] | null {
+  const previous = new Map<string, string>();
+  const queue = [id];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const dependency of graph.get(current)?.depends_on ?? []) {
+      if (dependency === id) {
+        const path: string[] = [];
+        for (let step = current; step !== id; step = previous.get(step)!) path.unshift(step);
+        return [id, ...path, id];
+      }
+      if (!graph.has(dependency) || previous.has(dependency)) continue;
+      previous.set(dependency, current);
+      queue.push(dependency);
+    }
+  }
+  return null;
+}
+
+/** Every distinct cycle in the graph, each starting at its smallest id. */
+export function findCycles(graph: DependencyGraph): string[][] {
+  const seen = new Set<string>();
+  const cycles: string[][] = [];
+  for (const id of graph.keys()) {
+    const cycle = findCycle(graph, id);
+    if (!cycle) continue;
+    const members = cycle.slice(0, -1);
+    const start = members.indexOf([...members].sort()[0]);
+    const rotated = [...members.slice(start), ...members.slice(0, start)];
+    const key = rotated.join("\n");
+    if (seen.has(key)) continue;
+    seen.add(key);
+    cycles.push([...rotated, rotated[0]]);
+  }
+  return cycles;
+}
+
+/** `id` plus its transitive dependencies and the tickets that transitively depend on it. */
+export function relatedTickets(graph: DependencyGraph, id: string): Set<string> {
+  const dependents = new Map<string, string[]>();
+  for (const node of graph.values()) {
+    for (const dependency of node.depends_on) {
+      dependents.set(dependency, [...(dependents.get(dependency) ?? []), node.id]);
+    }
+  }
+
+  const related = new Set([id]);
+  const walk = (start: string, next: (current: string) => string[]) => {
+    const stack = [start];
+    while (stack.length > 0) {
+      for (const neighbour of next(stack.pop()!)) {
+        if (related.has(neighbour) || !graph.has(neighbour)) continue;
+        related.add(neighbour);
+        stack.push(neighbour);
+      }
+    }
+  };
+  walk(id, (current) => graph.get(current)?.depends_on ?? []);
+  walk(id, (current) => dependents.get(current) ?? []);
+  return related;
+}
+
+/**
+ * Mermaid flowchart of the given tickets, dependencies first: an arrow
+ * `A --> B` means B depends on A. Unknown dependencies are drawn dashed.
+ * Nodes are numbered (`t0`, `t1`, ...) since ticket ids may contain
+ * characters Mermaid does not allow in node ids.
+ */
+export function dependencyMermaid(graph: DependencyGraph, ids: string[]): string {
+  const numbers = new Map<string, number>();
+  const nodeId = (id: string) => {
+    if (!numbers.has(id)) numbers.set(id, numbers.size);
+    return `t${numbers.get(id)}`;
+  };
+  const label = (text: string) => text.replace(/"/g, "#quot;");
+  const lines = ["flowchart TD"];
+  const missing = new Set<string>();
+
+  for (const id of ids) {
+    const node = graph.get(id)!;
+    lines.push(`  ${nodeId(id)}["${label(`${id}: ${node.title}`)}<br/>${node.status}"]`);
+  }
+  for (const id of ids) {
+    for (const dependency of graph.get(id)!.depends_on) {
+      if (!graph.has(dependency)) {
+        missing.add(dependency);
+        lines.push(`  ${nodeId(dependency)} -.-> ${nodeId(id)}`);
+      } else if (ids.includes(dependency)) {
+        lines.push(`  ${nodeId(dependency)} --> ${nodeId(id)}`);
+      }
+    }
+  }
+  for (const id of missing) {
+    lines.push(`  ${nodeId(id)}["${label(id)}<br/>missing"]`);
+  }
+  return lines.join("\n");
+}
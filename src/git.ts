@@ -0,0 +1,161 @@
+import fs from "fs";
+import path from "path";
+import { execFile } from "child_process";
+
+// Thin wrapper around the git CLI: committing ticket changes and reading a
+// ticket file's history. commitPaths stages and commits only the given paths,
+// so whatever else the user has staged or modified is left alone.
+
+export class GitError extends Error {
+  constructor(
+    public args: string[],
+    public stderr: string,
+  ) {
+    super(`git ${args.join(" ")} failed: ${stderr.trim() || "unknown error"}`);
+  }
+}
+
+/**
+ * Commits exactly `paths` (absolute, inside `cwd`'s work tree) with `message`.
+ * Paths that no longer exist are recorded as deletions, so a file moved from
+ * one path to another shows up as a rename. Returns the new commit sha, or
+ * null when the paths have no changes to commit.
+ */
+export async function commitPaths(
+  cwd: string,
+  paths: string[],
+  message: string,
+): Promise<string | null> {
+  const relative = [...new Set(paths)].map((filePath) => path.relative(cwd, filePath));
+  const present = relative.filter((file) => fs.existsSync(path.join(cwd, file)));
+  const removed = relative.filter((file) => !present.includes(file));
+
+  const hasHead = await git(cwd, ["rev-parse", "--verify", "--quiet", "HEAD"]).then(
+    () => true,
+    () => false,
+  );
+
+  if (present.length > 0) {
+    await git(cwd, ["add", "--", ...present]);
+  }
+  if (removed.length > 0) {
+    await git(cwd, ["rm", "--cached", "--quiet", "--ignore-unmatch", "--", ...removed]);
+  }
+
+  // A removed path git never knew about cannot be named in the commit.
+  const committable = [...present];
+  for (const file of removed) {
+    if (hasHead && (await isInHead(cwd, file))) committable.push(file);
+  }
+  if (committable.length === 0) return null;
+
+  if (hasHead) {
+    const unchanged = await git(cwd, ["diff", "--cached", "--quiet", "HEAD", "--", ...committable]).then(
+      () => true,
+      () => false,
+    );
+    if (unchanged) return null;
+  }
+
+  await git(cwd, ["commit", "--quiet", "-m", message, "--", ...committable]);
+  return (await git(cwd, ["rev-parse", "HEAD"])).trim();
+}
+
+export type FileCommit = {
+  sha: string;
+  author: string;
+  date: string;
+  subject: string;
+  /** "A", "M", "R087", ... as printed by --name-status. */
+  status: string;
+  /** Path at this commit, relative to the repository root. */
+  path: string;
+  /** Path before this commit when the commit renamed the file. */
+  previous_path: string | null;
+};
+
+/**
+ * Commits that touched `filePath`, newest first, following the file through
+ * renames (e.g. moves between status folders).
+ */
+export async function logFollow(cwd: string, filePath: string): Promise<FileCommit[]> {
+  const output = await git(cwd, [
+    "-c",
+    "core.quotePath=false",
+    "log",
+    "--follow",
+    "-M",
+    "--name-status",
+    "--format=%x1e%H%x1f%an%x1f%aI%x1f%s",
+    "--",
+    path.relative(cwd, filePath),
+  ]);
+
+  const commits: FileCommit[] = [];
+  for (const chunk of output.split("\x1e").filter((part) => part.trim())) {
+    const [header, ...rest] = chunk.split("\n");
+    const [sha, author, date, subject] = header.split("\x1f");
+    // Merge commits list no files; they carry no change of their own.
+    const statusLine = rest.find((line) => line.trim().length > 0);
+    if (!statusLine) continue;
+    const [status, first, second] = statusLine.split("\t");
+    commits.push({
+      sha,
+      author,
+      date,
+      subject,
+      status,
+      path: second ?? first,
+      previous_path: second ? first : null,
+    });
+  }
+  return commits;
+}
+
+/** File contents at a commit, or null if the path did not exist there. */
+export async function showFileAt(
+  cwd: string,
+  revision: string,
+  repoPath: string,
+): Promise<string | null> {
+  return await git(cwd, ["show", `${revision}:${repoPath}`]).catch(() => null);
+}
+
+export async function resolveCommit(cwd: string, revision: string): Promise<string | null> {
+  return await git(cwd, ["rev-parse", "--verify", "--quiet", `${revision}^{commit}`]).then(
+    (sha) => sha.trim(),
+    () => null,
+  );
+}
+
+export async function isAncestor(cwd: string, ancestor: string, descendant: string): Promise<boolean> {
+  return await git(cwd, ["merge-base", "--is-ancestor", ancestor, descendant]).then(
+    () => true,
+    () => false,
+  );
+}
+
+async function isInHead(cwd: string, file: string): Promise<boolean> {
+  const spec = `HEAD:./${file.split(path.sep).join("/")}`;
+  return await git(cwd, ["cat-file", "-e", spec]).then(
+    () => true,
+    () => false,
+  );
+}
+
+export function git(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      args,
+      { cwd, env: { ...process.env, GIT_TERMINAL_PROMPT: "0" }, maxBuffer: 16 * 1024 * 1024 },
+      (err, stdout, stderr) => {
+        if (err) {
+          reject(new GitError(args, String(stderr || err.message)));
+          return;
+        }
+        resolve(String(stdout));
+      },
+    );
+  });
+}
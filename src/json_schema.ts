@@ -0,0 +1,125 @@
+// Minimal JSON Schema checker for tool inputSchemas. Supports the subset the
+// tool definitions use: type (single or list), properties, required, items,
+// enum, additionalProperties, minLength, minItems and minimum.
+
+export type JsonSchema = {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  additionalProperties?: boolean | JsonSchema;
+  minLength?: number;
+  minItems?: number;
+  minimum?: number;
+  default?: unknown;
+};
+
+/**
+ * Returns one "<path>: <problem>" string per violation; an empty list means
+ * the value conforms. Paths use dotted keys and [n] for array items.
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path = "",
+): string[] {
+  const label = path || "arguments";
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      return [`${label}: expected ${types.join(" or ")}, got ${describeType(value)}`];
+    }
+  }
+
+  const issues: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push(`${label}: must be one of ${schema.enum.map(String).join(", ")}`);
+  }
+
+  if (typeof value === "string" && schema.minLength !== undefined) {
+    if (value.trim().length < schema.minLength) {
+      issues.push(`${label}: must not be empty`);
+    }
+  }
+
+  if (typeof value === "number" && schema.minimum !== undefined) {
+    if (value < schema.minimum) {
+      issues.push(`${label}: must be >= ${schema.minimum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push(`${label}: must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        issues.push(...validateJsonSchema(schema.items!, item, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        issues.push(`${joinPath(path, key)}: is required`);
+      }
+    }
+
+    const properties = schema.properties ?? {};
+    for (const [key, child] of Object.entries(value)) {
+      if (child === undefined) continue;
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        issues.push(...validateJsonSchema(propertySchema, child, joinPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        issues.push(`${joinPath(path, key)}: unknown property`);
+      } else if (typeof schema.additionalProperties === "object") {
+        issues.push(
+          ...validateJsonSchema(schema.additionalProperties, child, joinPath(path, key)),
+        );
+      }
+    }
+  }
+
+  return issues;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case "object":
+      return isPlainObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
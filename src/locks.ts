@@ -0,0 +1,163 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+
+// Advisory lockfiles under tickets/.locks/. A lock is a file created with
+// O_EXCL holding its owner's pid/host; it is considered stale (and broken)
+// once its owner is gone or it is older than staleMs.
+
+export type LockOptions = {
+  staleMs?: number;
+  timeoutMs?: number;
+  retryMs?: number;
+};
+
+type LockOwner = {
+  token: string;
+  pid: number;
+  host: string;
+  acquired_at: string;
+};
+
+const DEFAULT_STALE_MS = 30_000;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRY_MS = 20;
+
+const LOCKS_DIR = ".locks";
+const GLOBAL_LOCK_NAME = "_global";
+
+const heldLocks = new Set<string>();
+
+export class LockTimeoutError extends Error {
+  constructor(
+    public lockPath: string,
+    public owner: LockOwner | null,
+  ) {
+    super(
+      `Timed out waiting for lock ${path.basename(lockPath)}` +
+      (owner ? ` (held by pid ${owner.pid} on ${owner.host} since ${owner.acquired_at})` : ""),
+    );
+  }
+}
+
+/**
+ * Lock path for one ticket file. Keyed by the path inside its status folder,
+ * which stays the same when the ticket moves between folders.
+ */
+export function ticketLockPath(ticketsRoot: string, filePath: string): string {
+  const relative = path.relative(ticketsRoot, filePath).split(path.sep).slice(1).join("/");
+  const name = encodeURIComponent(relative || path.basename(filePath));
+  return path.join(ticketsRoot, LOCKS_DIR, `${name}.lock`);
+}
+
+/** Lock guarding id allocation and INDEX.md regeneration. */
+export function globalLockPath(ticketsRoot: string): string {
+  return path.join(ticketsRoot, LOCKS_DIR, `${GLOBAL_LOCK_NAME}.lock`);
+}
+
+export function isLockHeld(lockPath: string): boolean {
+  return heldLocks.has(lockPath);
+}
+
+export async function withLock<T>(
+  lockPath: string,
+  fn: () => Promise<T> | T,
+  options: LockOptions = {},
+): Promise<T> {
+  const release = await acquireLock(lockPath, options);
+  try {
+    return await fn();
+  } finally {
+    release();
+  }
+}
+
+export async function acquireLock(
+  lockPath: string,
+  options: LockOptions = {},
+): Promise<() => void> {
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retryMs = options.retryMs ?? DEFAULT_RETRY_MS;
+  const deadline = Date.now() + timeoutMs;
+
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  for (; ;) {
+    const owner: LockOwner = {
+      token: randomUUID(),
+      pid: process.pid,
+      host: os.hostname(),
+      acquired_at: new Date().toISOString(),
+    };
+
+    try {
+      fs.writeFileSync(lockPath, JSON.stringify(owner), { flag: "wx" });
+      heldLocks.add(lockPath);
+      return () => releaseLock(lockPath, owner.token);
+    } catch (err: any) {
+      if (err.code !== "EEXIST") throw err;
+    }
+
+    const current = readOwner(lockPath);
+    if (isStale(lockPath, current, staleMs)) {
+      breakLock(lockPath, current?.token ?? null);
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new LockTimeoutError(lockPath, current);
+    }
+    // Jitter keeps competing processes from retrying in lockstep.
+    await sleep(retryMs + Math.floor(Math.random() * retryMs));
+  }
+}
+
+function releaseLock(lockPath: string, token: string) {
+  heldLocks.delete(lockPath);
+  const current = readOwner(lockPath);
+  if (current?.token === token) {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+function breakLock(lockPath: string, staleToken: string | null) {
+  // Re-check right before removal so a lock re-taken in between survives.
+  const current = readOwner(lockPath);
+  if ((current?.token ?? null) === staleToken) {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+function readOwner(lockPath: string): LockOwner | null {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, "utf8")) as LockOwner;
+  } catch {
+    return null;
+  }
+}
+
+function isStale(lockPath: string, owner: LockOwner | null, staleMs: number): boolean {
+  if (owner && owner.host === os.hostname() && !isProcessAlive(owner.pid)) {
+    return true;
+  }
+  try {
+    return Date.now() - fs.statSync(lockPath).mtimeMs > staleMs;
+  } catch {
+    return false;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err: any) {
+    return err.code === "EPERM";
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
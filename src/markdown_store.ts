@@ -0,0 +1,196 @@
+import fs from "fs";
+import path from "path";
+import fg from "fast-glob";
+import { removeFileDurable, writeFileAtomic } from "./atomic_fs";
+import { globalLockPath, isLockHeld, ticketLockPath, withLock } from "./locks";
+import { StoreRecovery, TicketStore, contentRevision } from "./ticket_store";
+
+// The default backend: one markdown file per ticket in status folders under
+// tickets/, with crash-safe writes and cross-process lockfiles.
+
+const WATCH_RESTART_INTERVAL_MS = 60_000;
+
+type MoveIntent = {
+  from: string;
+  to: string;
+  revision: string;
+  started_at: string;
+};
+
+export function createMarkdownTicketStore(ticketsRoot: string): TicketStore {
+  const moveJournalDir = path.join(ticketsRoot, ".journal", "moves");
+
+  const moveIntentPath = (source: string) => {
+    const relative = path.relative(ticketsRoot, source);
+    return path.join(moveJournalDir, `${encodeURIComponent(relative)}.json`);
+  };
+
+  const store: TicketStore = {
+    kind: "markdown",
+    ticketsRoot,
+
+    listTicketFiles(folders) {
+      return fg.sync(
+        folders.map((folder) => `${folder}/**/*.md`),
+        { cwd: ticketsRoot, absolute: true },
+      );
+    },
+
+    listFiles(dir, extension) {
+      if (!fs.existsSync(dir)) return [];
+      return fg.sync(`*${extension}`, { cwd: dir, absolute: true }).sort();
+    },
+
+    stat(filePath) {
+      try {
+        const stat = fs.statSync(filePath);
+        if (!stat.isFile()) return null;
+        // Atomic writes replace the inode, so it changes even when a rewrite
+        // lands within the same mtime tick at the same size.
+        return { version: `${stat.mtimeMs}:${stat.size}:${stat.ino}`, size: stat.size };
+      } catch {
+        return null;
+      }
+    },
+
+    read(filePath) {
+      try {
+        return fs.readFileSync(filePath, "utf8");
+      } catch {
+        return null;
+      }
+    },
+
+    exists(filePath) {
+      return fs.existsSync(filePath);
+    },
+
+    write(filePath, content) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      writeFileAtomic(filePath, content);
+    },
+
+    /**
+     * A move is journaled first, so a crash between the write and the unlink
+     * is finished (or rolled back) by recover() on the next start.
+     */
+    move(source, destination, content) {
+      const intentPath = moveIntentPath(source);
+      store.write(
+        intentPath,
+        JSON.stringify({
+          from: source,
+          to: destination,
+          revision: contentRevision(content),
+          started_at: new Date().toISOString(),
+        }),
+      );
+      store.write(destination, content);
+      removeFileDurable(source);
+      removeFileDurable(intentPath);
+    },
+
+    remove(filePath) {
+      removeFileDurable(filePath);
+    },
+
+    append(filePath, content) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.appendFileSync(filePath, content, "utf8");
+    },
+
+    ticketLockKey(filePath) {
+      return ticketLockPath(ticketsRoot, filePath);
+    },
+
+    globalLockKey() {
+      return globalLockPath(ticketsRoot);
+    },
+
+    withLock(key, fn) {
+      return withLock(key, fn);
+    },
+
+    isLockHeld(key) {
+      return isLockHeld(key);
+    },
+
+    /**
+     * The destination is written atomically, so if it exists the move got
+     * past its write and only the unlink of the source is missing; otherwise
+     * the source is untouched.
+     */
+    async recover() {
+      const report: StoreRecovery = { completed: [], rolled_back: [] };
+      if (!fs.existsSync(moveJournalDir)) return report;
+
+      for (const name of fs.readdirSync(moveJournalDir).filter((entry) => entry.endsWith(".json"))) {
+        const intentPath = path.join(moveJournalDir, name);
+        let intent: MoveIntent;
+        try {
+          intent = JSON.parse(fs.readFileSync(intentPath, "utf8")) as MoveIntent;
+        } catch {
+          removeFileDurable(intentPath);
+          continue;
+        }
+
+        // A live server may still be mid-move; its lock makes us wait it out.
+        await withLock(ticketLockPath(ticketsRoot, intent.from), () => {
+          if (!fs.existsSync(intentPath)) return;
+          if (fs.existsSync(intent.to)) {
+            removeFileDurable(intent.from);
+            report.completed.push(intent.to);
+          } else {
+            report.rolled_back.push(intent.from);
+          }
+          removeFileDurable(intentPath);
+        });
+      }
+
+      return report;
+    },
+
+    /**
+     * A watcher that errors (e.g. its folder was removed and re-created) is
+     * replaced, at most once a minute; changes may have been missed, so
+     * onChange(null) follows. Otherwise watching stops.
+     */
+    watch(onChange, onStop) {
+      let watcher: fs.FSWatcher | null = null;
+      let restartedAt = 0;
+      const start = (): boolean => {
+        try {
+          watcher = fs.watch(ticketsRoot, { recursive: true }, (_event, filename) => {
+            onChange(filename ? path.join(ticketsRoot, String(filename)) : null);
+          });
+        } catch (err: any) {
+          process.stderr.write(`ticket-mcp: cannot watch ${ticketsRoot}: ${err?.message ?? err}\n`);
+          return false;
+        }
+        watcher.on("error", (err) => {
+          process.stderr.write(`ticket-mcp: watcher for ${ticketsRoot} failed: ${err.message}\n`);
+          watcher?.close();
+          watcher = null;
+          const canRestart = Date.now() - restartedAt > WATCH_RESTART_INTERVAL_MS;
+          restartedAt = Date.now();
+          if (canRestart && start()) {
+            onChange(null);
+          } else {
+            onStop?.();
+          }
+        });
+        return true;
+      };
+
+      if (!fs.existsSync(ticketsRoot) || !start()) return null;
+      return {
+        close: () => {
+          watcher?.close();
+          watcher = null;
+        },
+      };
+    },
+  };
+
+  return store;
+}
@@ -0,0 +1,135 @@
+import path from "path";
+import { TicketStore } from "./ticket_store";
+
+// In-memory backend for embedding the engine in other tools and for tests.
+// Nothing touches the disk: paths are virtual (absolute under ticketsRoot),
+// locks are in-process, and every write notifies watchers directly.
+
+type MemoryFile = { content: string; version: number };
+
+/**
+ * `files` seeds the store, keyed by path relative to ticketsRoot
+ * (e.g. "pending/2026-01-01__T-001__example.md").
+ */
+export function createMemoryTicketStore(
+  ticketsRoot: string,
+  files: Record<string, string> = {},
+): TicketStore {
+  const root = path.resolve(ticketsRoot);
+  const contents = new Map<string, MemoryFile>();
+  const listeners = new Set<(filePath: string | null) => void>();
+  const lockQueues = new Map<string, Promise<void>>();
+  const heldLocks = new Set<string>();
+  let nextVersion = 1;
+
+  const put = (filePath: string, content: string) => {
+    contents.set(path.resolve(filePath), { content, version: nextVersion++ });
+  };
+  const notify = (filePath: string) => {
+    for (const listener of listeners) listener(filePath);
+  };
+
+  for (const [relative, content] of Object.entries(files)) {
+    put(path.join(root, relative), content);
+  }
+
+  const store: TicketStore = {
+    kind: "memory",
+    ticketsRoot: root,
+
+    listTicketFiles(folders) {
+      return folders.flatMap((folder) => {
+        const prefix = path.join(root, folder) + path.sep;
+        return [...contents.keys()]
+          .filter((filePath) => filePath.startsWith(prefix) && filePath.endsWith(".md"))
+          .sort();
+      });
+    },
+
+    listFiles(dir, extension) {
+      const resolved = path.resolve(dir);
+      return [...contents.keys()]
+        .filter((filePath) => path.dirname(filePath) === resolved && filePath.endsWith(extension))
+        .sort();
+    },
+
+    stat(filePath) {
+      const file = contents.get(path.resolve(filePath));
+      return file
+        ? { version: String(file.version), size: Buffer.byteLength(file.content) }
+        : null;
+    },
+
+    read(filePath) {
+      return contents.get(path.resolve(filePath))?.content ?? null;
+    },
+
+    exists(filePath) {
+      return contents.has(path.resolve(filePath));
+    },
+
+    write(filePath, content) {
+      put(filePath, content);
+      notify(filePath);
+    },
+
+    move(source, destination, content) {
+      put(destination, content);
+      contents.delete(path.resolve(source));
+      notify(destination);
+    },
+
+    remove(filePath) {
+      if (contents.delete(path.resolve(filePath))) notify(filePath);
+    },
+
+    append(filePath, content) {
+      put(filePath, (store.read(filePath) ?? "") + content);
+      notify(filePath);
+    },
+
+    ticketLockKey(filePath) {
+      const relative = path.relative(root, filePath).split(path.sep).slice(1).join("/");
+      return `ticket:${relative || path.basename(filePath)}`;
+    },
+
+    globalLockKey() {
+      return "global";
+    },
+
+    /** Waiters queue behind the current holder, first come first served. */
+    async withLock(key, fn) {
+      const previous = lockQueues.get(key) ?? Promise.resolve();
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      const tail = previous.then(() => gate);
+      lockQueues.set(key, tail);
+
+      await previous;
+      heldLocks.add(key);
+      try {
+        return await fn();
+      } finally {
+        heldLocks.delete(key);
+        release();
+        if (lockQueues.get(key) === tail) lockQueues.delete(key);
+      }
+    },
+
+    isLockHeld(key) {
+      return heldLocks.has(key);
+    },
+
+    async recover() {
+      // Moves are a single map update; there is nothing to recover.
+      return { completed: [], rolled_back: [] };
+    },
+
+    watch(onChange) {
+      listeners.add(onChange);
+      return { close: () => listeners.delete(onChange) };
+    },
+  };
+
+  return store;
+}
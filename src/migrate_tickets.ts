@@ -1,18 +1,28 @@
 import fs from "fs";
 import path from "path";
 import fg from "fast-glob";
-import { REQUIRED_BODY_HEADERS } from "./server";
+import { writeFileAtomic } from "./atomic_fs";
+import {
+    TICKET_CONFIG_FILE,
+    TicketConfig,
+    parseTicketConfig,
+    ticketFolders,
+} from "./project_config";
+import { ticketLockPath, withLock } from "./locks";
 
 const repoRoot = process.env.TICKET_ROOT ?? path.resolve(process.cwd(), "..", "..");
+const ticketsRoot = path.join(repoRoot, "tickets");
 
 async function migrateTickets() {
-    const patterns = [
-        "tickets/pending/**/*.md",
-        "tickets/in_progress/**/*.md",
-        "tickets/awaiting_human_test/**/*.md",
-        "tickets/done/**/*.md",
-        "tickets/archive/**/*.md",
-    ];
+    const configPath = path.join(ticketsRoot, TICKET_CONFIG_FILE);
+    const loaded = parseTicketConfig(
+        fs.existsSync(configPath) ? fs.readFileSync(configPath, "utf8") : null
+    );
+    if ("error" in loaded) {
+        throw new Error(`${loaded.error}: ${loaded.issues.join("; ")}`);
+    }
+    const config = loaded.config;
+    const patterns = ticketFolders(config).map((folder) => `tickets/${folder}/**/*.md`);
 
     const files = await fg(patterns, { cwd: repoRoot, absolute: true });
     let migratedCount = 0;
@@ -21,47 +31,14 @@ async function migrateTickets() {
 
     for (const filePath of files) {
         try {
-            const raw = fs.readFileSync(filePath, "utf8");
-            const match = raw.match(/^---\s*\n([\s\S]*?)\n---\s*\n?/);
-            if (!match) {
-                console.warn(`Skipping (no frontmatter): ${filePath}`);
-                errCount++;
-                continue;
-            }
-
-            const frontmatterText = match[0];
-            let bodyText = raw.slice(frontmatterText.length);
-            let changed = false;
-
-            // 1. Rename existing loose labels safely using regex to catch "## Completion Notes"
-            const completionNotesRegex = /^##\s+Completion Notes\s*$/m;
-            if (completionNotesRegex.test(bodyText)) {
-                bodyText = bodyText.replace(completionNotesRegex, "## Implementation Notes");
-                changed = true;
-            }
-
-            // 2. Find missing headers
-            const missingHeaders = REQUIRED_BODY_HEADERS.filter(
-                (header) => !bodyText.includes(header)
+            // Same per-ticket lock the server takes, so a running server and
+            // this script never interleave writes to one ticket.
+            const outcome = await withLock(ticketLockPath(ticketsRoot, filePath), () =>
+                migrateTicketFile(filePath, config)
             );
-
-            // 3. Inject missing headers at the bottom
-            if (missingHeaders.length > 0) {
-                // Ensure there is at least one newline before appending
-                if (!bodyText.endsWith("\n")) {
-                    bodyText += "\n";
-                }
-                bodyText += "\n" + missingHeaders.join("\n\n") + "\n";
-                changed = true;
-            }
-
-            if (changed) {
-                fs.writeFileSync(filePath, frontmatterText + bodyText, "utf8");
-                console.log(`Migrated: ${filePath}`);
-                migratedCount++;
-            } else {
-                skippedCount++;
-            }
+            if (outcome === "migrated") migratedCount++;
+            else if (outcome === "skipped") skippedCount++;
+            else errCount++;
         } catch (err: any) {
             console.error(`Error processing ${filePath}: ${err.message}`);
             errCount++;
@@ -74,6 +51,52 @@ async function migrateTickets() {
     console.log(`Errors: ${errCount}`);
 }
 
+function migrateTicketFile(
+    filePath: string,
+    config: TicketConfig
+): "migrated" | "skipped" | "error" {
+    const raw = fs.readFileSync(filePath, "utf8");
+    const match = raw.match(/^---\s*\n([\s\S]*?)\n---\s*\n?/);
+    if (!match) {
+        console.warn(`Skipping (no frontmatter): ${filePath}`);
+        return "error";
+    }
+
+    const frontmatterText = match[0];
+    let bodyText = raw.slice(frontmatterText.length);
+    let changed = false;
+
+    // 1. Rename existing loose labels safely using regex to catch "## Completion Notes"
+    const completionNotesRegex = /^##\s+Completion Notes\s*$/m;
+    if (completionNotesRegex.test(bodyText)) {
+        bodyText = bodyText.replace(completionNotesRegex, "## Implementation Notes");
+        changed = true;
+    }
+
+    // 2. Find missing headers
+    const missingHeaders = config.required_sections.filter(
+        (header) => !bodyText.includes(header)
+    );
+
+    // 3. Inject missing headers at the bottom
+    if (missingHeaders.length > 0) {
+        // Ensure there is at least one newline before appending
+        if (!bodyText.endsWith("\n")) {
+            bodyText += "\n";
+        }
+        bodyText += "\n" + missingHeaders.join("\n\n") + "\n";
+        changed = true;
+    }
+
+    if (!changed) {
+        return "skipped";
+    }
+
+    writeFileAtomic(filePath, frontmatterText + bodyText);
+    console.log(`Migrated: ${filePath}`);
+    return "migrated";
+}
+
 migrateTickets().catch((err) => {
     console.error("Fatal error during migration:", err);
     process.exit(1);
@@ -0,0 +1,531 @@
+import YAML from "yaml";
+import { JsonSchema, validateJsonSchema } from "./json_schema";
+import { Transition, guardIssue } from "./transitions";
+
+// Per-project workflow settings read from tickets/.ticket-mcp.yaml. Every key
+// is optional; anything left out keeps the built-in layout below.
+
+export const TICKET_CONFIG_FILE = ".ticket-mcp.yaml";
+
+export type StatusDefinition = {
+  name: string;
+  /** Folder under tickets/; several statuses may share one. */
+  folder: string;
+  /** Column and INDEX.md heading; derived from the name when omitted. */
+  label?: string;
+  /** Done-like: collapsed in INDEX.md. */
+  terminal?: boolean;
+};
+
+export const CustomFieldTypeValues = ["enum", "number", "date", "string_list", "actor"] as const;
+
+export type CustomFieldType = (typeof CustomFieldTypeValues)[number];
+
+/** A project-specific frontmatter field, checked by validateTicket. */
+export type CustomField = {
+  name: string;
+  type: CustomFieldType;
+  description?: string;
+  required?: boolean;
+  /** enum: allowed values, in sort order. string_list: allowed items (any when omitted). */
+  values?: string[];
+  /** number: inclusive bounds. */
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  /** string_list: length bounds. */
+  min_items?: number;
+  max_items?: number;
+};
+
+export const ActorRoleValues = ["human", "agent", "reviewer"] as const;
+
+export type ActorRole = (typeof ActorRoleValues)[number];
+
+export type TicketConfig = {
+  /** Board order. The first status listed for a folder is its primary one. */
+  statuses: StatusDefinition[];
+  required_fields: string[];
+  required_sections: string[];
+  /** Frontmatter values tickets.create fills in when the caller omits them. */
+  defaults: Record<string, unknown>;
+  /** INDEX.md section order; defaults to the status order. */
+  index_order: string[];
+  /** Custom frontmatter fields, written after the built-in ones in this order. */
+  fields: CustomField[];
+  /** Allowed moves per status, with guards; null allows any move. */
+  transitions: Record<string, Transition[]> | null;
+  /**
+   * Actor patterns per role: an exact actor id or a "prefix*" pattern.
+   * Actors matching none of them are agents.
+   */
+  roles: Partial<Record<ActorRole, string[]>>;
+  /** Frontmatter fields only these roles may change. */
+  field_roles: Record<string, ActorRole[]>;
+  /**
+   * The statuses tickets.claim moves a ticket between. Release and lease
+   * expiry move it back to `from`.
+   */
+  claim: { from: string; to: string };
+  /**
+   * Where tickets.handoff moves a ticket and the body sections it writes.
+   * Checked when handing off, so layouts without a handoff need not set it.
+   */
+  handoff: { to: string; notes_section: string; testing_section: string };
+};
+
+export const DEFAULT_TICKET_CONFIG: TicketConfig = {
+  statuses: [
+    { name: "pending", folder: "pending" },
+    { name: "in_progress", folder: "in_progress" },
+    { name: "blocked", folder: "in_progress" },
+    { name: "awaiting_human_test", folder: "awaiting_human_test", label: "Awaiting Test" },
+    { name: "done", folder: "done", terminal: true },
+    { name: "archived", folder: "archive", terminal: true },
+  ],
+  required_fields: [
+    "id",
+    "title",
+    "status",
+    "created_at",
+    "updated_at",
+    "area",
+    "key_files",
+    "intent",
+    "requirements",
+    "human_testing_steps",
+    "constraints",
+    "depends_on",
+    "claimed_by",
+    "claimed_at",
+    "work_log",
+    "review_notes",
+  ],
+  required_sections: [
+    "## Overview",
+    "## Approach (medium/high-level)",
+    "## Tasks / Todos",
+    "## Requirements (AI implementation)",
+    "## Human Testing Steps",
+    "## Key Files / Areas (notes)",
+    "## Questions",
+    "## Blockers",
+    "## Implementation Notes",
+  ],
+  defaults: { status: "pending", epic: "none" },
+  index_order: ["in_progress", "blocked", "pending", "awaiting_human_test", "done", "archived"],
+  fields: [
+    {
+      name: "priority",
+      type: "enum",
+      description: "Planning priority, highest first",
+      values: ["critical", "high", "medium", "low"],
+    },
+    {
+      name: "estimate",
+      type: "number",
+      description: "Estimated effort in points",
+      min: 0,
+    },
+  ],
+  transitions: {
+    pending: [
+      { to: "in_progress", guards: ["claimed"] },
+      { to: "blocked", guards: [] },
+      { to: "archived", guards: [] },
+    ],
+    in_progress: [
+      { to: "pending", guards: [] },
+      { to: "blocked", guards: [] },
+      { to: "awaiting_human_test", guards: ["handoff", "implementation_notes"] },
+      { to: "archived", guards: [] },
+    ],
+    blocked: [
+      { to: "pending", guards: [] },
+      { to: "in_progress", guards: ["claimed"] },
+      { to: "archived", guards: [] },
+    ],
+    awaiting_human_test: [
+      { to: "in_progress", guards: [] },
+      { to: "done", guards: [], roles: ["human"] },
+      { to: "archived", guards: [] },
+    ],
+    done: [
+      { to: "in_progress", guards: [] },
+      { to: "archived", guards: [] },
+    ],
+    archived: [{ to: "pending", guards: [] }],
+  },
+  roles: { human: ["human:*"], reviewer: ["reviewer:*"] },
+  field_roles: { review_notes: ["human"] },
+  claim: { from: "pending", to: "in_progress" },
+  handoff: {
+    to: "awaiting_human_test",
+    notes_section: "## Implementation Notes",
+    testing_section: "## Human Testing Steps",
+  },
+};
+
+/** Frontmatter keys the server manages itself; custom fields may not reuse them. */
+const BUILTIN_FIELDS = new Set([
+  "id",
+  "title",
+  "status",
+  "created_at",
+  "updated_at",
+  "area",
+  "epic",
+  "feature",
+  "key_files",
+  "intent",
+  "requirements",
+  "human_testing_steps",
+  "constraints",
+  "depends_on",
+  "claimed_by",
+  "claimed_at",
+  "lease_expires_at",
+  "work_log",
+  "review_notes",
+]);
+
+const STRING_LIST: JsonSchema = { type: "array", items: { type: "string", minLength: 1 } };
+
+const CONFIG_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    statuses: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string", minLength: 1 },
+          folder: { type: "string", minLength: 1 },
+          label: { type: "string", minLength: 1 },
+          terminal: { type: "boolean" },
+        },
+        required: ["name", "folder"],
+        additionalProperties: false,
+      },
+    },
+    required_fields: STRING_LIST,
+    required_sections: STRING_LIST,
+    defaults: { type: "object" },
+    index_order: STRING_LIST,
+    fields: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string", minLength: 1 },
+          type: { type: "string", enum: CustomFieldTypeValues },
+          description: { type: "string" },
+          required: { type: "boolean" },
+          values: { type: "array", minItems: 1, items: { type: "string", minLength: 1 } },
+          min: { type: "number" },
+          max: { type: "number" },
+          integer: { type: "boolean" },
+          min_items: { type: "integer", minimum: 0 },
+          max_items: { type: "integer", minimum: 0 },
+        },
+        required: ["name", "type"],
+        additionalProperties: false,
+      },
+    },
+    transitions: {
+      type: "object",
+      additionalProperties: {
+        type: "array",
+        items: {
+          type: ["string", "object"],
+          properties: {
+            to: { type: "string", minLength: 1 },
+            guards: STRING_LIST,
+            roles: { type: "array", items: { type: "string", enum: ActorRoleValues } },
+          },
+          required: ["to"],
+          additionalProperties: false,
+        },
+      },
+    },
+    roles: {
+      type: "object",
+      properties: { human: STRING_LIST, reviewer: STRING_LIST },
+      additionalProperties: false,
+    },
+    field_roles: {
+      type: "object",
+      additionalProperties: {
+        type: "array",
+        minItems: 1,
+        items: { type: "string", enum: ActorRoleValues },
+      },
+    },
+    claim: {
+      type: "object",
+      properties: {
+        from: { type: "string", minLength: 1 },
+        to: { type: "string", minLength: 1 },
+      },
+      additionalProperties: false,
+    },
+    handoff: {
+      type: "object",
+      properties: {
+        to: { type: "string", minLength: 1 },
+        notes_section: { type: "string", minLength: 1 },
+        testing_section: { type: "string", minLength: 1 },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+/** A transitions entry as written: a target status, or a target with guards. */
+type TransitionEntry = string | { to: string; guards?: string[]; roles?: ActorRole[] };
+
+const STATUS_NAME = /^[a-z][a-z0-9_]*$/;
+const FOLDER_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+export type TicketConfigResult =
+  | { config: TicketConfig }
+  | { error: string; issues: string[] };
+
+/**
+ * Parses a config file's contents over the built-in defaults; `raw` null
+ * means there is no file. Lists replace the default lists wholesale.
+ */
+export function parseTicketConfig(raw: string | null): TicketConfigResult {
+  if (raw === null) return { config: DEFAULT_TICKET_CONFIG };
+
+  const invalid = (issues: string[]) => ({
+    error: `Invalid tickets/${TICKET_CONFIG_FILE}`,
+    issues,
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = YAML.parse(raw) ?? {};
+  } catch (err: any) {
+    return invalid([err.message ?? "YAML parse error"]);
+  }
+
+  const schemaIssues = validateJsonSchema(CONFIG_SCHEMA, parsed, "config");
+  if (schemaIssues.length > 0) return invalid(schemaIssues);
+
+  const file = parsed as Partial<Omit<TicketConfig, "transitions">> & {
+    transitions?: Record<string, TransitionEntry[]>;
+  };
+  const statuses = file.statuses ?? DEFAULT_TICKET_CONFIG.statuses;
+  const names = statuses.map((status) => status.name);
+  const config: TicketConfig = {
+    statuses,
+    required_fields: file.required_fields ?? DEFAULT_TICKET_CONFIG.required_fields,
+    required_sections: file.required_sections ?? DEFAULT_TICKET_CONFIG.required_sections,
+    defaults: { ...DEFAULT_TICKET_CONFIG.defaults, ...file.defaults },
+    index_order:
+      file.index_order ?? (file.statuses ? names : DEFAULT_TICKET_CONFIG.index_order),
+    fields: file.fields ?? DEFAULT_TICKET_CONFIG.fields,
+    // Custom statuses without a matrix move freely; the built-in matrix only
+    // makes sense for the built-in statuses.
+    transitions: file.transitions
+      ? Object.fromEntries(
+        Object.entries(file.transitions).map(([from, entries]) => [
+          from,
+          entries.map((entry) =>
+            typeof entry === "string"
+              ? { to: entry, guards: [] }
+              : { to: entry.to, guards: entry.guards ?? [], roles: entry.roles },
+          ),
+        ]),
+      )
+      : file.statuses
+        ? null
+        : DEFAULT_TICKET_CONFIG.transitions,
+    roles: file.roles ?? DEFAULT_TICKET_CONFIG.roles,
+    field_roles: file.field_roles ?? DEFAULT_TICKET_CONFIG.field_roles,
+    claim: { ...DEFAULT_TICKET_CONFIG.claim, ...file.claim },
+    handoff: { ...DEFAULT_TICKET_CONFIG.handoff, ...file.handoff },
+  };
+
+  const issues: string[] = [];
+  const seen = new Set<string>();
+  for (const status of statuses) {
+    if (!STATUS_NAME.test(status.name)) {
+      issues.push(`Status name must be lower_snake_case: ${status.name}`);
+    }
+    if (!FOLDER_NAME.test(status.folder)) {
+      issues.push(`Folder must be a single plain folder name: ${status.folder}`);
+    }
+    if (seen.has(status.name)) {
+      issues.push(`Duplicate status: ${status.name}`);
+    }
+    seen.add(status.name);
+  }
+  for (const [key, name] of Object.entries(config.claim)) {
+    if (!seen.has(name)) issues.push(`claim.${key} names unknown status: ${name}`);
+  }
+  if (config.claim.from === config.claim.to) {
+    issues.push(`claim.from and claim.to must differ: ${config.claim.from}`);
+  }
+  for (const name of config.index_order) {
+    if (!seen.has(name)) issues.push(`index_order names unknown status: ${name}`);
+  }
+  const fieldNames = new Set<string>();
+  for (const field of config.fields) {
+    if (!STATUS_NAME.test(field.name)) {
+      issues.push(`Field name must be lower_snake_case: ${field.name}`);
+    }
+    if (BUILTIN_FIELDS.has(field.name)) {
+      issues.push(`Field ${field.name} is built in and cannot be redefined`);
+    }
+    if (fieldNames.has(field.name)) {
+      issues.push(`Duplicate field: ${field.name}`);
+    }
+    fieldNames.add(field.name);
+    if (field.type === "enum" && !field.values) {
+      issues.push(`Enum field ${field.name} needs values`);
+    }
+    const fallback = config.defaults[field.name];
+    const defaultIssue =
+      fallback === undefined ? null : validateCustomField(field, fallback);
+    if (defaultIssue) issues.push(`defaults.${defaultIssue}`);
+  }
+
+  for (const [from, transitions] of Object.entries(config.transitions ?? {})) {
+    if (!seen.has(from)) issues.push(`transitions names unknown status: ${from}`);
+    for (const transition of transitions) {
+      if (!seen.has(transition.to)) {
+        issues.push(`transitions.${from} names unknown status: ${transition.to}`);
+      }
+      for (const guard of transition.guards) {
+        const problem = guardIssue(guard);
+        if (problem) issues.push(`transitions.${from}: ${problem}`);
+      }
+    }
+  }
+
+  const defaultStatus = config.defaults.status;
+  if (typeof defaultStatus !== "string" || !seen.has(defaultStatus)) {
+    issues.push(`defaults.status must be one of the statuses: ${String(defaultStatus)}`);
+  }
+
+  return issues.length > 0 ? invalid(issues) : { config };
+}
+
+export function statusNames(config: TicketConfig): string[] {
+  return config.statuses.map((status) => status.name);
+}
+
+export function statusFolder(config: TicketConfig, status: string): string | null {
+  return config.statuses.find((entry) => entry.name === status)?.folder ?? null;
+}
+
+/** Statuses stored in `folder`, primary first; empty for unknown folders. */
+export function folderStatuses(config: TicketConfig, folder: string): string[] {
+  return config.statuses.filter((entry) => entry.folder === folder).map((entry) => entry.name);
+}
+
+/** Status folders in status order, each once. */
+export function ticketFolders(config: TicketConfig): string[] {
+  return [...new Set(config.statuses.map((status) => status.folder))];
+}
+
+export function statusLabel(config: TicketConfig, status: string): string {
+  const label = config.statuses.find((entry) => entry.name === status)?.label;
+  return (
+    label ??
+    status
+      .split("_")
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(" ")
+  );
+}
+
+export function isTerminalStatus(config: TicketConfig, status: string): boolean {
+  return config.statuses.some((entry) => entry.name === status && entry.terminal === true);
+}
+
+export function customField(config: TicketConfig, name: string): CustomField | null {
+  return config.fields.find((field) => field.name === name) ?? null;
+}
+
+/** "<kind>:<name>", e.g. worker-ai:alice or human:bob. */
+const ACTOR_PATTERN = /^[^\s:]+:\S+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T.*)?$/;
+
+/** Why `value` is not valid for `field`, or null; null and undefined count as unset. */
+export function validateCustomField(field: CustomField, value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const name = field.name;
+
+  switch (field.type) {
+    case "enum":
+      if (typeof value !== "string" || !(field.values ?? []).includes(value)) {
+        return `${name} must be one of ${(field.values ?? []).join(", ")}`;
+      }
+      return null;
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return `${name} must be a number`;
+      }
+      if (field.integer && !Number.isInteger(value)) return `${name} must be an integer`;
+      if (field.min !== undefined && value < field.min) return `${name} must be at least ${field.min}`;
+      if (field.max !== undefined && value > field.max) return `${name} must be at most ${field.max}`;
+      return null;
+    case "date":
+      if (typeof value !== "string" || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+        return `${name} must be a date (YYYY-MM-DD or ISO timestamp)`;
+      }
+      return null;
+    case "string_list": {
+      if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+        return `${name} must be a list of strings`;
+      }
+      const unknown = field.values ? value.filter((item) => !field.values!.includes(item)) : [];
+      if (unknown.length > 0) {
+        return `${name} has unknown values ${unknown.join(", ")}; allowed: ${field.values!.join(", ")}`;
+      }
+      if (field.min_items !== undefined && value.length < field.min_items) {
+        return `${name} needs at least ${field.min_items} items`;
+      }
+      if (field.max_items !== undefined && value.length > field.max_items) {
+        return `${name} allows at most ${field.max_items} items`;
+      }
+      return null;
+    }
+    case "actor":
+      if (typeof value !== "string" || !ACTOR_PATTERN.test(value)) {
+        return `${name} must be an actor id like worker-ai:alice`;
+      }
+      return null;
+  }
+}
+
+/** Orders two set values of one field: enums by declared order, the rest naturally. */
+export function compareFieldValues(field: CustomField | null, a: unknown, b: unknown): number {
+  if (field?.type === "enum") {
+    const values = field.values ?? [];
+    return values.indexOf(String(a)) - values.indexOf(String(b));
+  }
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (field?.type === "date") return Date.parse(String(a)) - Date.parse(String(b));
+  const textA = Array.isArray(a) ? a.join(",") : String(a);
+  const textB = Array.isArray(b) ? b.join(",") : String(b);
+  return textA.localeCompare(textB);
+}
+
+/** The role of `actor`; anonymous callers and unmatched actors are agents. */
+export function actorRole(config: TicketConfig, actor: string | null): ActorRole {
+  if (!actor) return "agent";
+  for (const role of ["human", "reviewer"] as const) {
+    const patterns = config.roles[role] ?? [];
+    const matches = patterns.some((pattern) =>
+      pattern.endsWith("*") ? actor.startsWith(pattern.slice(0, -1)) : actor === pattern,
+    );
+    if (matches) return role;
+  }
+  return "agent";
+}
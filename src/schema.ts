@@ -37,7 +37,8 @@ export interface WorkLogEntry {
 export interface TicketFrontmatter {
   id: string;
   title: string;
-  status: TicketStatus;
+  /** A TicketStatus unless the project's tickets/.ticket-mcp.yaml defines other statuses. */
+  status: string;
   created_at: string;
   updated_at: string;
   area: string;
@@ -50,6 +51,8 @@ export interface TicketFrontmatter {
   depends_on: string[];
   claimed_by: string | null;
   claimed_at: string | null;
+  /** Set by a claim with a lease; tickets.sweep releases the ticket once it passes. */
+  lease_expires_at?: string | null;
   work_log: WorkLogEntry[];
   review_notes: string | null;
   [key: string]: unknown;
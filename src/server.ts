@@ -1,17 +1,66 @@
-import "dotenv/config";
+#!/usr/bin/env node
+import dotenv from "dotenv";
 import http from "http";
 import path from "path";
-import fs from "fs";
-import fg from "fast-glob";
 import YAML from "yaml";
+import readline from "readline";
+import { randomUUID } from "crypto";
+import { isDeepStrictEqual } from "util";
 import type { AddressInfo } from "net";
+import { WorkLogEntry, WorkLogKindValues } from "./schema";
+import { JsonSchema, validateJsonSchema } from "./json_schema";
+import { TicketStore, contentRevision } from "./ticket_store";
+import { createMarkdownTicketStore } from "./markdown_store";
+import { createMemoryTicketStore } from "./memory_store";
 import {
-  TicketFrontmatter,
-  TicketStatus,
-  TicketStatusValues,
-  WorkLogEntry,
-  WorkLogKindValues,
-} from "./schema";
+  Transition,
+  failedGuards,
+  findTransition,
+  sectionContent,
+  transitionInto,
+  transitionRoles,
+  transitionsFrom,
+} from "./transitions";
+import {
+  DependencyNode,
+  buildDependencyGraph,
+  dependencyIssues,
+  dependencyMermaid,
+  findCycles,
+  relatedTickets,
+} from "./dependency_graph";
+import {
+  DEFAULT_TICKET_CONFIG,
+  TICKET_CONFIG_FILE,
+  TicketConfig,
+  actorRole,
+  compareFieldValues,
+  customField,
+  folderStatuses,
+  isTerminalStatus,
+  parseTicketConfig,
+  statusFolder,
+  statusLabel,
+  statusNames,
+  ticketFolders,
+  validateCustomField,
+} from "./project_config";
+import {
+  FileCommit,
+  GitError,
+  commitPaths,
+  isAncestor,
+  logFollow,
+  resolveCommit,
+  showFileAt,
+} from "./git";
+
+// For embedding: build a store and pass it as ServerConfig.store.
+export { createMarkdownTicketStore, createMemoryTicketStore };
+export type { TicketStore };
+
+// Quiet: dotenv otherwise logs to stdout, which corrupts the stdio transport.
+dotenv.config({ quiet: true });
 
 type JsonRpcRequest = {
   jsonrpc: "2.0";
@@ -20,6 +69,12 @@ type JsonRpcRequest = {
   params?: any;
 };
 
+type JsonRpcNotification = {
+  jsonrpc: "2.0";
+  method: string;
+  params?: any;
+};
+
 type JsonRpcResponse = {
   jsonrpc: "2.0";
   id: string | number | null;
@@ -31,8 +86,20 @@ type JsonRpcResponse = {
   };
 };
 
+class RpcError extends Error {
+  constructor(
+    public code: number,
+    message: string,
+    public data?: any,
+  ) {
+    super(message);
+  }
+}
+
 type TicketRecord = {
   path: string;
+  raw: string;
+  revision: string;
   frontmatter: Record<string, any>;
   body: string;
   parseError?: string;
@@ -41,84 +108,232 @@ type TicketRecord = {
 type TicketSummary = {
   id: string;
   title: string;
-  status: TicketStatus | string;
+  status: string;
   area: string;
   epic: string;
   path: string;
+  revision: string;
   created_at?: string;
   updated_at?: string;
   intent?: string;
+  /** When the current claim lapses unless renewed with tickets.heartbeat. */
+  lease_expires_at?: string;
+  /** Values of the project's custom fields that are set on the ticket. */
+  fields?: Record<string, unknown>;
   issues?: string[];
 };
 
-type ServerConfig = {
+type McpSession = {
+  id: string;
+  streams: Set<http.ServerResponse>;
+  subscriptions: Set<string>;
+  /** Time of the last request in this session, for the idle reaper. */
+  lastSeen: number;
+};
+
+type RpcContext = {
+  state: ServerState;
+  subscriptions?: Set<string>;
+};
+
+type ProjectConfig = {
+  /** Defaults to the basename of repoRoot. */
+  name?: string;
+  repoRoot?: string;
+  /** Backend for a store created from repoRoot; defaults to "markdown". */
+  storage?: "markdown" | "memory";
+  /** A ready-made store (e.g. a seeded memory store); wins over `storage`. */
+  store?: TicketStore;
+  strict?: boolean;
+  gitCommit?: boolean;
+};
+
+type ServerConfig = Omit<ProjectConfig, "name"> & {
   port?: number;
   host?: string;
   path?: string;
-  strict?: boolean;
-  repoRoot?: string;
+  watch?: boolean;
+  /** Return tickets with expired claim leases to pending this often; 0 disables. */
+  leaseSweepSeconds?: number;
+  /** Drop HTTP sessions with no open stream after this long without a request; 0 disables. */
+  sessionIdleSeconds?: number;
+  /** Several ticket roots served side by side; replaces repoRoot/storage/store. */
+  projects?: ProjectConfig[];
+  /** Project used when a call names none; defaults to the first. */
+  defaultProject?: string;
+};
+
+/** One ticket root with its store and parsed-ticket cache. */
+type Project = {
+  name: string;
+  repoRoot: string;
+  ticketsRoot: string;
+  store: TicketStore;
+  strict: boolean;
+  gitCommit: boolean;
+  cache: TicketCache;
+  /** From tickets/.ticket-mcp.yaml; the built-in layout when there is none. */
+  config: TicketConfig;
+  /** Store version of the config file the config was read from. */
+  configVersion: string | null;
+  /** "" for the default project, "<name>/" otherwise; see ticketResourceUri. */
+  uriPrefix: string;
+};
+
+/** Everything one server instance owns; nothing is shared between instances. */
+type ServerState = {
+  projects: Map<string, Project>;
+  defaultProject: Project;
+  mcpPath: string;
+  watch: boolean;
+  leaseSweepSeconds: number;
+  sessionIdleSeconds: number;
 };
 
-let defaultPort = Number(process.env.TICKET_MCP_PORT ?? "3334");
-let defaultHost = process.env.TICKET_MCP_HOST ?? "127.0.0.1";
-let mcpPath = process.env.TICKET_MCP_PATH ?? "/mcp";
-let strictMode =
-  (process.env.TICKET_STRICT ?? "true").toLowerCase() !== "false";
+const defaultPort = Number(process.env.TICKET_MCP_PORT ?? "3334");
+const defaultHost = process.env.TICKET_MCP_HOST ?? "127.0.0.1";
+
+function createServerState(config: ServerConfig): ServerState {
+  const strict = config.strict ?? envFlag("TICKET_STRICT", true);
+  const gitCommit = config.gitCommit ?? envFlag("TICKET_GIT_COMMIT", false);
+  const projectConfigs =
+    config.projects ??
+    (config.repoRoot || config.store || config.storage ? null : projectsFromEnv()) ??
+    [{ repoRoot: config.repoRoot, storage: config.storage, store: config.store }];
+
+  const projects = new Map<string, Project>();
+  for (const projectConfig of projectConfigs) {
+    const project = createProject(projectConfig, { strict, gitCommit });
+    if (projects.has(project.name)) {
+      throw new Error(`Duplicate project name: ${project.name}`);
+    }
+    projects.set(project.name, project);
+  }
+
+  const defaultName = config.defaultProject ?? projects.keys().next().value;
+  const defaultProject = defaultName ? projects.get(defaultName) : undefined;
+  if (!defaultProject) {
+    throw new Error(`Unknown default project: ${defaultName ?? "(none configured)"}`);
+  }
+  for (const project of projects.values()) {
+    project.uriPrefix = project === defaultProject ? "" : `${project.name}/`;
+  }
+
+  return {
+    projects,
+    defaultProject,
+    mcpPath: config.path ?? process.env.TICKET_MCP_PATH ?? "/mcp",
+    watch: config.watch ?? envFlag("TICKET_WATCH", true),
+    leaseSweepSeconds:
+      config.leaseSweepSeconds ?? Number(process.env.TICKET_LEASE_SWEEP_SECONDS ?? "0"),
+    sessionIdleSeconds:
+      config.sessionIdleSeconds ?? Number(process.env.TICKET_SESSION_IDLE_SECONDS ?? "1800"),
+  };
+}
 
-let repoRoot = process.env.TICKET_ROOT ?? path.resolve(process.cwd(), "..", "..");
-let ticketsRoot = path.join(repoRoot, "tickets");
+function createProject(
+  config: ProjectConfig,
+  defaults: { strict: boolean; gitCommit: boolean },
+): Project {
+  const repoRoot =
+    config.repoRoot ??
+    (config.store
+      ? path.dirname(config.store.ticketsRoot)
+      : process.env.TICKET_ROOT ?? path.resolve(process.cwd(), "..", ".."));
+  const ticketsRoot = path.join(repoRoot, "tickets");
+  const store =
+    config.store ??
+    (config.storage === "memory"
+      ? createMemoryTicketStore(ticketsRoot)
+      : createMarkdownTicketStore(ticketsRoot));
+
+  const project: Project = {
+    name: config.name ?? path.basename(path.resolve(repoRoot)),
+    repoRoot,
+    ticketsRoot: store.ticketsRoot,
+    store,
+    strict: config.strict ?? defaults.strict,
+    gitCommit: config.gitCommit ?? defaults.gitCommit,
+    cache: createTicketCache(),
+    config: DEFAULT_TICKET_CONFIG,
+    configVersion: null,
+    uriPrefix: "",
+  };
 
-function applyConfig(config: ServerConfig) {
-  if (config.path) mcpPath = config.path;
-  if (config.strict !== undefined) strictMode = config.strict;
-  if (config.repoRoot) setRepoRoot(config.repoRoot);
+  // A broken config at startup is fatal: guessing folders could misfile tickets.
+  const invalid = refreshProjectConfig(project);
+  if (invalid) {
+    throw new Error(`${project.name}: ${invalid.error}: ${invalid.issues.join("; ")}`);
+  }
+  return project;
 }
 
-function setRepoRoot(root: string) {
-  repoRoot = root;
-  ticketsRoot = path.join(repoRoot, "tickets");
+/**
+ * Re-reads tickets/.ticket-mcp.yaml if it changed since it was last read.
+ * Returns its problems when it no longer parses. A broken file is read again
+ * on every call and every tool but tickets.projects returns the error until
+ * it is fixed; project.config keeps the last good config only for that one.
+ */
+function refreshProjectConfig(project: Project): { error: string; issues: string[] } | null {
+  const configPath = path.join(project.ticketsRoot, TICKET_CONFIG_FILE);
+  const version = project.store.stat(configPath)?.version ?? null;
+  if (version === project.configVersion) return null;
+
+  const result = parseTicketConfig(version === null ? null : project.store.read(configPath));
+  if ("error" in result) {
+    project.configVersion = "invalid";
+    return result;
+  }
+
+  project.config = result.config;
+  project.configVersion = version;
+  // Cached summaries carry validation issues computed under the old config,
+  // and the file list may come from other folders.
+  project.cache.entries.clear();
+  project.cache.idIndex.clear();
+  project.cache.files = null;
+  return null;
 }
 
-const STATUS_TO_FOLDER: Record<TicketStatus, string> = {
-  pending: "pending",
-  in_progress: "in_progress",
-  blocked: "in_progress",
-  awaiting_human_test: "awaiting_human_test",
-  done: "done",
-  archived: "archive",
-};
+/** TICKET_PROJECTS="web=/src/web,/src/api": name=root pairs or bare roots. */
+function projectsFromEnv(): ProjectConfig[] | null {
+  const raw = process.env.TICKET_PROJECTS;
+  if (!raw || !raw.trim()) return null;
+  return raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf("=");
+      return separator > 0
+        ? { name: entry.slice(0, separator).trim(), repoRoot: entry.slice(separator + 1).trim() }
+        : { repoRoot: entry };
+    });
+}
 
-const FOLDER_TO_STATUS: Record<string, TicketStatus[]> = {
-  pending: ["pending"],
-  in_progress: ["in_progress", "blocked"],
-  awaiting_human_test: ["awaiting_human_test"],
-  done: ["done"],
-  archive: ["archived"],
-};
+function envFlag(name: string, fallback: boolean): boolean {
+  const value = process.env[name];
+  if (value === undefined) return fallback;
+  return fallback ? value.toLowerCase() !== "false" : value.toLowerCase() === "true";
+}
 
-const REQUIRED_FIELDS: (keyof TicketFrontmatter)[] = [
-  "id",
-  "title",
-  "status",
-  "created_at",
-  "updated_at",
-  "area",
-  "key_files",
-  "intent",
-  "requirements",
-  "human_testing_steps",
-  "constraints",
-  "depends_on",
-  "claimed_by",
-  "claimed_at",
-  "work_log",
-  "review_notes",
-];
+function resolveProject(state: ServerState, name: unknown): Project | { error: string } {
+  if (name === undefined || name === null || name === "") {
+    return state.defaultProject;
+  }
+  const project = state.projects.get(String(name));
+  if (!project) {
+    return {
+      error: `Unknown project: ${String(name)} (available: ${[...state.projects.keys()].join(", ")})`,
+    };
+  }
+  return project;
+}
 
-function suggestStatus(value: string): TicketStatus | null {
+function suggestStatus(project: Project, value: string): string | null {
   const normalized = value.trim().toLowerCase();
   if (!normalized) return null;
-  for (const status of TicketStatusValues) {
+  for (const status of statusNames(project.config)) {
     if (status === normalized) return status;
     if (status.startsWith(normalized) || normalized.startsWith(status)) {
       return status;
@@ -127,10 +342,10 @@ function suggestStatus(value: string): TicketStatus | null {
   return null;
 }
 
-function formatInvalidStatus(value: unknown): string {
+function formatInvalidStatus(project: Project, value: unknown): string {
   const raw = String(value);
-  const suggestion = suggestStatus(raw);
-  const valid = `Valid statuses: ${TicketStatusValues.join(", ")}`;
+  const suggestion = suggestStatus(project, raw);
+  const valid = `Valid statuses: ${statusNames(project.config).join(", ")}`;
   if (suggestion && suggestion !== raw) {
     return `Invalid status: ${raw}. Did you mean ${suggestion}? ${valid}`;
   }
@@ -149,23 +364,139 @@ const TOOL_ALIASES = [
   { alias: "tickets_claim", canonical: "tickets.claim" },
   { alias: "tickets_append_worklog", canonical: "tickets.append_worklog" },
   { alias: "tickets_reconcile", canonical: "tickets.reconcile" },
+  { alias: "tickets_history", canonical: "tickets.history" },
+  { alias: "tickets_undo", canonical: "tickets.undo" },
+  { alias: "tickets_operations", canonical: "tickets.operations" },
+  { alias: "tickets_projects", canonical: "tickets.projects" },
+  { alias: "tickets_config", canonical: "tickets.config" },
+  { alias: "tickets_transitions", canonical: "tickets.transitions" },
+  { alias: "tickets_graph", canonical: "tickets.graph" },
+  { alias: "tickets_next", canonical: "tickets.next" },
+  { alias: "tickets_heartbeat", canonical: "tickets.heartbeat" },
+  { alias: "tickets_sweep", canonical: "tickets.sweep" },
+  { alias: "tickets_release", canonical: "tickets.release" },
+  { alias: "tickets_reassign", canonical: "tickets.reassign" },
+  { alias: "tickets_handoff", canonical: "tickets.handoff" },
 ];
 
 const TOOL_ALIAS_LOOKUP = new Map(
   TOOL_ALIASES.map(({ alias, canonical }) => [alias, canonical]),
 );
 
-const BASE_TOOL_DEFS = [
+const STRING_LIST_SCHEMA: JsonSchema = { type: "array", items: { type: "string" } };
+
+const FILTER_SCHEMA: JsonSchema = {
+  type: ["array", "string"],
+  items: { type: "string" },
+};
+
+const TICKET_REF_PROPERTIES: Record<string, JsonSchema> = {
+  id: { type: "string", description: "Ticket id, e.g. T-042" },
+  path: { type: "string", description: "Ticket path, absolute or relative to the repo root" },
+};
+
+const CONCURRENCY_PROPERTIES: Record<string, JsonSchema> = {
+  expected_revision: {
+    type: "string",
+    description: "Reject with a conflict unless the ticket still has this revision",
+  },
+  expected_updated_at: {
+    type: "string",
+    description: "Reject with a conflict unless updated_at still has this value",
+  },
+};
+
+const WORK_LOG_DETAILS_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    touched_files: STRING_LIST_SCHEMA,
+    commands: STRING_LIST_SCHEMA,
+    links: STRING_LIST_SCHEMA,
+    notes: STRING_LIST_SCHEMA,
+  },
+  additionalProperties: false,
+};
+
+const WORK_LOG_ENTRY_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    at: { type: "string", description: "ISO timestamp; defaults to now" },
+    actor: { type: "string", minLength: 1, description: "e.g. worker-ai:alice" },
+    kind: { type: "string", enum: WorkLogKindValues },
+    summary: { type: "string", minLength: 1 },
+    details: WORK_LOG_DETAILS_SCHEMA,
+  },
+  required: ["actor", "kind", "summary"],
+  additionalProperties: false,
+};
+
+const ACTOR_SCHEMA: JsonSchema = {
+  type: "string",
+  minLength: 1,
+  description: "Who is acting (e.g. human:alice); decides the role checked against the project's rules",
+};
+
+const DEFAULT_LEASE_MINUTES = 30;
+
+const LEASE_MINUTES_SCHEMA: JsonSchema = {
+  type: "number",
+  minimum: 0,
+  description: "Claim expires after this many minutes unless renewed with tickets.heartbeat",
+};
+
+const FRONTMATTER_PATCH_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "Frontmatter fields to overwrite; use tickets.move to change status",
+  properties: {
+    title: { type: "string", minLength: 1 },
+    area: { type: "string", minLength: 1 },
+    epic: { type: "string" },
+    intent: { type: "string", minLength: 1 },
+    key_files: STRING_LIST_SCHEMA,
+    requirements: STRING_LIST_SCHEMA,
+    human_testing_steps: STRING_LIST_SCHEMA,
+    constraints: STRING_LIST_SCHEMA,
+    depends_on: STRING_LIST_SCHEMA,
+    claimed_by: { type: ["string", "null"] },
+    claimed_at: { type: ["string", "null"] },
+    review_notes: { type: ["string", "null"] },
+  },
+};
+
+type ToolDefinition = { name: string; description: string; inputSchema: JsonSchema };
+
+const PROJECT_PROPERTY: JsonSchema = {
+  type: "string",
+  minLength: 1,
+  description: "Project name from tickets.projects; defaults to the server's default project",
+};
+
+const TICKET_TOOL_DEFS: ToolDefinition[] = [
   {
     name: "tickets.list",
     description: "List tickets with optional filters",
     inputSchema: {
       type: "object",
       properties: {
-        status: { type: "array", items: { type: "string" } },
-        area: { type: "array", items: { type: "string" } },
-        epic: { type: "array", items: { type: "string" } },
-        text: { type: "string" },
+        status: FILTER_SCHEMA,
+        area: FILTER_SCHEMA,
+        epic: FILTER_SCHEMA,
+        text: { type: "string", description: "Case-insensitive match on id, title and intent" },
+        stale: {
+          type: "boolean",
+          description: "true: only in_progress tickets whose lease has expired; false: all others",
+        },
+        fields: {
+          type: "object",
+          description:
+            "Custom field filters: a value or list of values (any match), or {min, max} for numbers and dates",
+        },
+        sort: {
+          type: ["array", "string"],
+          items: { type: "string" },
+          description:
+            "Field names to sort by, '-' prefix for descending (enums sort in declared order); default -updated_at",
+        },
       },
     },
   },
@@ -174,10 +505,7 @@ const BASE_TOOL_DEFS = [
     description: "Get a ticket by id or path",
     inputSchema: {
       type: "object",
-      properties: {
-        id: { type: "string" },
-        path: { type: "string" },
-      },
+      properties: { ...TICKET_REF_PROPERTIES },
     },
   },
   {
@@ -186,24 +514,27 @@ const BASE_TOOL_DEFS = [
     inputSchema: {
       type: "object",
       properties: {
-        id: { type: "string" },
-        path: { type: "string" },
-        patch: { type: "object" },
-        work_log_entry: { type: "object" },
+        ...TICKET_REF_PROPERTIES,
+        ...CONCURRENCY_PROPERTIES,
+        patch: FRONTMATTER_PATCH_SCHEMA,
+        actor: ACTOR_SCHEMA,
+        work_log_entry: WORK_LOG_ENTRY_SCHEMA,
       },
       required: ["patch"],
     },
   },
   {
     name: "tickets.move",
-    description: "Move a ticket to a new status folder and update status",
+    description:
+      "Move a ticket to a new status folder and update status; the project's transition rules and guards apply",
     inputSchema: {
       type: "object",
       properties: {
-        id: { type: "string" },
-        path: { type: "string" },
-        to_status: { type: "string" },
-        work_log_entry: { type: "object" },
+        ...TICKET_REF_PROPERTIES,
+        ...CONCURRENCY_PROPERTIES,
+        to_status: { type: "string", description: "A status from tickets.config" },
+        actor: ACTOR_SCHEMA,
+        work_log_entry: WORK_LOG_ENTRY_SCHEMA,
       },
       required: ["to_status"],
     },
@@ -213,43 +544,34 @@ const BASE_TOOL_DEFS = [
     description: "Validate ticket frontmatter and folder invariants",
     inputSchema: {
       type: "object",
-      properties: {
-        id: { type: "string" },
-        path: { type: "string" },
-      },
+      properties: { ...TICKET_REF_PROPERTIES },
     },
   },
   {
     name: "tickets.create",
-    description: "Create a new ticket with strict frontmatter validation",
+    description:
+      "Create a new ticket with strict frontmatter validation; custom fields from tickets.config are passed as top-level arguments",
     inputSchema: {
       type: "object",
       properties: {
-        id: { type: "string" },
-        title: { type: "string" },
-        area: { type: "string" },
+        id: { type: "string", minLength: 1 },
+        title: { type: "string", minLength: 1 },
+        area: { type: "string", minLength: 1 },
         epic: { type: "string" },
         intent: { type: "string" },
-        requirements: { type: "array", items: { type: "string" } },
-        human_testing_steps: { type: "array", items: { type: "string" } },
-        constraints: { type: "array", items: { type: "string" } },
-        key_files: { type: "array", items: { type: "string" } },
-        depends_on: { type: "array", items: { type: "string" } },
-        status: { type: "string" },
+        requirements: STRING_LIST_SCHEMA,
+        human_testing_steps: STRING_LIST_SCHEMA,
+        constraints: STRING_LIST_SCHEMA,
+        key_files: STRING_LIST_SCHEMA,
+        depends_on: STRING_LIST_SCHEMA,
+        status: { type: "string", description: "Defaults to the config's defaults.status (pending)" },
         created_at: { type: "string" },
-        body: { type: "string" },
+        body: { type: "string", description: "Markdown body; defaults to the required sections" },
         filename: { type: "string" },
+        actor: ACTOR_SCHEMA,
       },
-      required: [
-        "id",
-        "title",
-        "area",
-        "intent",
-        "requirements",
-        "human_testing_steps",
-        "constraints",
-        "key_files",
-      ],
+      // The rest depends on the project's required_fields and defaults.
+      required: ["id", "title"],
     },
   },
   {
@@ -265,21 +587,117 @@ const BASE_TOOL_DEFS = [
       properties: {
         prefix: { type: "string" },
         separator: { type: "string" },
-        padding: { type: "number" },
+        padding: { type: "integer", minimum: 0 },
       },
     },
   },
   {
     name: "tickets.claim",
-    description: "Claim a pending ticket and move to in_progress",
+    description:
+      "Claim a pending ticket and move to in_progress; refuses tickets with unfinished dependencies unless force",
     inputSchema: {
       type: "object",
       properties: {
-        id: { type: "string" },
-        path: { type: "string" },
-        actor: { type: "string" },
+        ...TICKET_REF_PROPERTIES,
+        ...CONCURRENCY_PROPERTIES,
+        actor: { type: "string", minLength: 1 },
         summary: { type: "string" },
-        details: { type: "object" },
+        details: WORK_LOG_DETAILS_SCHEMA,
+        force: { type: "boolean", description: "Claim even if depends_on tickets are unfinished" },
+        lease_minutes: LEASE_MINUTES_SCHEMA,
+      },
+      required: ["actor"],
+    },
+  },
+  {
+    name: "tickets.heartbeat",
+    description: "Renew the claimant's lease on an in_progress ticket",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...TICKET_REF_PROPERTIES,
+        ...CONCURRENCY_PROPERTIES,
+        actor: { type: "string", minLength: 1 },
+        lease_minutes: {
+          ...LEASE_MINUTES_SCHEMA,
+          description: `Minutes from now; default ${DEFAULT_LEASE_MINUTES}`,
+        },
+      },
+      required: ["actor"],
+    },
+  },
+  {
+    name: "tickets.sweep",
+    description:
+      "Return in_progress tickets whose claim lease has expired to pending, with a handoff work_log entry",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "tickets.release",
+    description: "Give up a claim: clear it and return the ticket to pending, logging the reason",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...TICKET_REF_PROPERTIES,
+        ...CONCURRENCY_PROPERTIES,
+        actor: { type: "string", minLength: 1 },
+        reason: { type: "string", minLength: 1 },
+        force: { type: "boolean", description: "Release even if actor is not the claimant" },
+      },
+      required: ["actor", "reason"],
+    },
+  },
+  {
+    name: "tickets.reassign",
+    description: "Transfer a claim to another actor, with a handoff work_log entry",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...TICKET_REF_PROPERTIES,
+        ...CONCURRENCY_PROPERTIES,
+        actor: { type: "string", minLength: 1 },
+        to_actor: { type: "string", minLength: 1 },
+        reason: { type: "string" },
+        lease_minutes: LEASE_MINUTES_SCHEMA,
+        force: { type: "boolean", description: "Reassign even if actor is not the claimant" },
+      },
+      required: ["actor", "to_actor"],
+    },
+  },
+  {
+    name: "tickets.handoff",
+    description:
+      "Hand a claimed ticket to human testing in one step: handoff work_log entry, Implementation Notes, move to the handoff status (awaiting_human_test by default)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...TICKET_REF_PROPERTIES,
+        ...CONCURRENCY_PROPERTIES,
+        actor: { type: "string", minLength: 1 },
+        summary: { type: "string", minLength: 1, description: "What was done; first line of the notes" },
+        notes: { type: "string", description: "More markdown for the Implementation Notes section" },
+        touched_files: STRING_LIST_SCHEMA,
+        commands: { ...STRING_LIST_SCHEMA, description: "Commands run (tests, builds)" },
+        testing_notes: { ...STRING_LIST_SCHEMA, description: "What testers should know or watch for" },
+        force: { type: "boolean", description: "Hand off even if actor is not the claimant" },
+      },
+      required: ["actor", "summary"],
+    },
+  },
+  {
+    name: "tickets.next",
+    description:
+      "Return the best pending ticket for an actor to work on (dependencies finished, highest priority, oldest first); optionally claim it",
+    inputSchema: {
+      type: "object",
+      properties: {
+        actor: { type: "string", minLength: 1 },
+        area: { type: "string" },
+        epic: { type: "string" },
+        claim: { type: "boolean", description: "Claim the ticket in the same call" },
+        summary: { type: "string", description: "Claim work_log summary" },
+        details: WORK_LOG_DETAILS_SCHEMA,
+        lease_minutes: LEASE_MINUTES_SCHEMA,
       },
       required: ["actor"],
     },
@@ -290,9 +708,9 @@ const BASE_TOOL_DEFS = [
     inputSchema: {
       type: "object",
       properties: {
-        id: { type: "string" },
-        path: { type: "string" },
-        entry: { type: "object" },
+        ...TICKET_REF_PROPERTIES,
+        ...CONCURRENCY_PROPERTIES,
+        entry: WORK_LOG_ENTRY_SCHEMA,
       },
       required: ["entry"],
     },
@@ -303,14 +721,103 @@ const BASE_TOOL_DEFS = [
     inputSchema: {
       type: "object",
       properties: {
-        id: { type: "string" },
-        path: { type: "string" },
+        ...TICKET_REF_PROPERTIES,
+        ...CONCURRENCY_PROPERTIES,
         apply_fixes: { type: "boolean" },
       },
     },
   },
+  {
+    name: "tickets.history",
+    description:
+      "Git history of a ticket (follows moves): changed frontmatter fields and a body diff summary per commit, or the ticket as of a commit or date",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...TICKET_REF_PROPERTIES,
+        limit: { type: "integer", minimum: 1, description: "Newest commits to return" },
+        at: {
+          type: "string",
+          minLength: 1,
+          description:
+            "Commit-ish, ISO timestamp or date (end of that day, UTC); return the ticket as it was then instead of the history",
+        },
+      },
+    },
+  },
+  {
+    name: "tickets.undo",
+    description:
+      "Revert an operation (or the actor's last one) to its before-snapshots; refuses if the tickets changed since unless force",
+    inputSchema: {
+      type: "object",
+      properties: {
+        operation_id: { type: "string", minLength: 1, description: "From a write result or tickets.operations" },
+        actor: {
+          type: "string",
+          minLength: 1,
+          description:
+            "Who is undoing (role-checked like tickets.move); without operation_id, undo this actor's newest operation not yet undone",
+        },
+        force: { type: "boolean", description: "Undo even if the tickets changed since" },
+      },
+    },
+  },
+  {
+    name: "tickets.operations",
+    description: "List recent operations from the operation journal, newest first",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Only operations touching this ticket id" },
+        actor: { type: "string" },
+        limit: { type: "integer", minimum: 1 },
+      },
+    },
+  },
+  {
+    name: "tickets.projects",
+    description: "List the projects (ticket roots) this server serves and which one is the default",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "tickets.config",
+    description:
+      "Return the project's workflow config: statuses and folders, required fields and sections, defaults",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "tickets.transitions",
+    description:
+      "List the statuses a ticket can move to next, with each transition's guards, roles and which of them it fails",
+    inputSchema: {
+      type: "object",
+      properties: { ...TICKET_REF_PROPERTIES, actor: ACTOR_SCHEMA },
+    },
+  },
+  {
+    name: "tickets.graph",
+    description:
+      "Return the depends_on graph as JSON nodes/edges and Mermaid text, optionally limited to an epic or to one ticket's ancestors and descendants",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Only this ticket, its dependencies and its dependents (transitively)" },
+        epic: { type: "string" },
+      },
+    },
+  },
 ];
 
+// Every tool can target any project.
+const BASE_TOOL_DEFS: ToolDefinition[] = TICKET_TOOL_DEFS.map((def) => ({
+  ...def,
+  inputSchema: {
+    ...def.inputSchema,
+    properties: { ...def.inputSchema.properties, project: PROJECT_PROPERTY },
+  },
+}));
+
 const TOOL_DEFS = TOOL_ALIASES.map(({ alias, canonical }) => {
   const canonicalDef = BASE_TOOL_DEFS.find((def) => def.name === canonical);
   if (!canonicalDef) {
@@ -319,15 +826,152 @@ const TOOL_DEFS = TOOL_ALIASES.map(({ alias, canonical }) => {
   return { ...canonicalDef, name: alias };
 });
 
+const TICKET_URI_SCHEME = "ticket://";
+const RESOURCE_NOT_FOUND = -32002;
+
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-03-26", "2024-11-05"];
+const SSE_KEEPALIVE_MS = 25_000;
+const WATCH_DEBOUNCE_MS = 100;
+
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${TICKET_URI_SCHEME}{id}`,
+    name: "ticket",
+    title: "Ticket by id",
+    description: "Raw ticket markdown plus its frontmatter as JSON",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: `${TICKET_URI_SCHEME}{project}/{id}`,
+    name: "project_ticket",
+    title: "Ticket by project and id",
+    description: "A ticket of the named project (see tickets.projects), in the same shape",
+    mimeType: "text/markdown",
+  },
+];
+
+type PromptArgument = {
+  name: string;
+  description?: string;
+  required?: boolean;
+};
+
+type PromptDefinition = {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  template: string;
+};
+
+const TICKET_ID_ARGUMENT: PromptArgument = {
+  name: "ticket_id",
+  description: "Ticket id, e.g. T-042",
+  required: true,
+};
+
+const ACTOR_ARGUMENT: PromptArgument = {
+  name: "actor",
+  description: "Actor id to record in the work_log, e.g. worker-ai:alice",
+};
+
+const TICKET_CONTEXT_TEMPLATE = `Ticket {{id}}: {{title}} (status: {{status}})
+Path: {{path}}
+
+Intent:
+{{intent}}
+
+Requirements:
+{{requirements}}
+
+Human testing steps:
+{{human_testing_steps}}
+
+Constraints:
+{{constraints}}
+
+Recent work_log:
+{{work_log}}`;
+
+const BUILTIN_PROMPTS: PromptDefinition[] = [
+  {
+    name: "pick_up_ticket",
+    description: "Claim a pending ticket and plan the implementation",
+    arguments: [TICKET_ID_ARGUMENT, ACTOR_ARGUMENT],
+    template: `You are picking up ticket {{id}}.
+
+${TICKET_CONTEXT_TEMPLATE}
+
+Steps:
+1. Call tickets_claim with id "{{id}}" and actor "{{actor}}". Stop if the claim is rejected.
+2. Read the full ticket with tickets_get and restate the requirements in your own words.
+3. Record your plan with tickets_append_worklog (kind: "analysis").
+4. Log meaningful progress as you go (kind: "change" or "command"); log blockers with kind "blocker".`,
+  },
+  {
+    name: "write_handoff",
+    description: "Write a handoff entry and move a ticket to awaiting_human_test",
+    arguments: [TICKET_ID_ARGUMENT, ACTOR_ARGUMENT],
+    template: `You are handing off ticket {{id}} for human testing.
+
+${TICKET_CONTEXT_TEMPLATE}
+
+Steps:
+1. Check every requirement above is implemented; list any that are not.
+2. Call tickets_handoff with id "{{id}}", actor "{{actor}}", a summary of what changed and why, touched_files, commands you ran, and testing_notes for the tester.
+3. If it refuses because human_testing_steps is empty, add the steps with tickets_update and try again.`,
+  },
+  {
+    name: "review_for_human_testing",
+    description: "Review a ticket awaiting human testing against its testing steps",
+    arguments: [TICKET_ID_ARGUMENT, ACTOR_ARGUMENT],
+    template: `You are reviewing ticket {{id}} before a human tests it.
+
+${TICKET_CONTEXT_TEMPLATE}
+
+Steps:
+1. Confirm the human testing steps are concrete and can be followed without reading the code.
+2. Confirm the latest handoff in the work_log covers every requirement.
+3. Record findings with tickets_append_worklog (actor "{{actor}}", kind "note").
+4. If anything is missing, call tickets_move with to_status "in_progress" and explain why.`,
+  },
+];
+
+const RECENT_WORK_LOG_ENTRIES = 5;
+
 export function createServer(config: ServerConfig = {}) {
-  applyConfig(config);
+  const state = createServerState(config);
   const host = config.host ?? defaultHost;
   const port = config.port ?? defaultPort;
 
+  // Sessionless streams predate Streamable HTTP and receive every notification.
+  const streams = new Set<http.ServerResponse>();
+  const sessions = new Map<string, McpSession>();
+  const broadcast = (message: JsonRpcNotification) => {
+    for (const stream of streams) {
+      writeSseMessage(stream, message);
+    }
+    for (const session of sessions.values()) {
+      if (!wantsNotification(session.subscriptions, message)) continue;
+      for (const stream of session.streams) {
+        writeSseMessage(stream, message);
+      }
+    }
+  };
+  const watchers = state.watch
+    ? [...state.projects.values()].map((project) => startTicketWatcher(project, broadcast))
+    : [];
+  const ready = recoverProjects(state);
+  const sweeper = startLeaseSweeper(state, ready);
+  const reaper = startSessionReaper(sessions, state.sessionIdleSeconds);
+
   const server = http.createServer(async (req, res) => {
     res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+    res.setHeader(
+      "Access-Control-Allow-Headers",
+      "Content-Type, Accept, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID",
+    );
+    res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
 
     if (req.method === "OPTIONS") {
       res.writeHead(204);
@@ -335,31 +979,129 @@ export function createServer(config: ServerConfig = {}) {
       return;
     }
 
-    if (req.method !== "POST" || req.url !== mcpPath) {
+    // Clients may add a query string (e.g. an auth token); only the path routes.
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== state.mcpPath) {
       res.writeHead(404, { "Content-Type": "application/json" });
       res.end(JSON.stringify({ error: "Not found" }));
       return;
     }
 
+    const sessionId = headerValue(req, "mcp-session-id");
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (sessionId && !session) {
+      writeJson(res, 404, {
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: -32001, message: "Session not found" },
+      });
+      return;
+    }
+    if (session) session.lastSeen = Date.now();
+
+    if (req.method === "GET") {
+      openEventStream(req, res, session ? session.streams : streams);
+      return;
+    }
+
+    if (req.method === "DELETE") {
+      if (!session) {
+        writeJson(res, 400, {
+          jsonrpc: "2.0",
+          id: null,
+          error: { code: -32600, message: "Missing Mcp-Session-Id header" },
+        });
+        return;
+      }
+      closeSession(session);
+      sessions.delete(session.id);
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "GET, POST, DELETE, OPTIONS" });
+      res.end();
+      return;
+    }
+
     try {
       const body = await readRequestBody(req);
-      const payload = JSON.parse(body);
-      const response = await handleRpc(payload);
-      res.writeHead(200, { "Content-Type": "application/json" });
-      res.end(JSON.stringify(response));
-    } catch (err: any) {
-      res.writeHead(500, { "Content-Type": "application/json" });
-      res.end(
-        JSON.stringify({
+      const payload = parseJsonRpcPayload(body);
+      if (payload instanceof RpcError) {
+        writeJson(res, 400, {
           jsonrpc: "2.0",
           id: null,
-          error: { code: -32603, message: err.message ?? "Internal error" },
-        }),
+          error: { code: payload.code, message: payload.message },
+        });
+        return;
+      }
+
+      let target = session;
+      if (!target && containsInitialize(payload)) {
+        target = {
+          id: randomUUID(),
+          streams: new Set(),
+          subscriptions: new Set(),
+          lastSeen: Date.now(),
+        };
+        sessions.set(target.id, target);
+        res.setHeader("Mcp-Session-Id", target.id);
+      }
+
+      await ready;
+      const response = await dispatchRpc(
+        payload,
+        target ? { state, subscriptions: target.subscriptions } : { state },
       );
+
+      // Only notifications (or client responses) were sent: nothing to answer.
+      if (response === null) {
+        res.writeHead(202);
+        res.end();
+        return;
+      }
+
+      if (prefersEventStream(req)) {
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+        });
+        writeSseMessage(res, response);
+        res.end();
+        return;
+      }
+
+      writeJson(res, 200, response);
+    } catch (err: any) {
+      writeJson(res, 500, {
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: -32603, message: err.message ?? "Internal error" },
+      });
     }
   });
 
-  return { server, host, port, path: mcpPath };
+  // Open SSE streams would otherwise keep close() from ever completing.
+  const closeServer = server.close.bind(server);
+  server.close = (callback?: (err?: Error) => void) => {
+    for (const watcher of watchers) {
+      watcher?.close();
+    }
+    sweeper?.close();
+    reaper?.close();
+    for (const stream of streams) {
+      stream.end();
+    }
+    streams.clear();
+    for (const session of sessions.values()) {
+      closeSession(session);
+    }
+    sessions.clear();
+    return closeServer(callback);
+  };
+
+  return { server, host, port, path: state.mcpPath };
 }
 
 export async function startServer(config: ServerConfig = {}) {
@@ -381,31 +1123,270 @@ export async function startServer(config: ServerConfig = {}) {
   };
 }
 
-if (require.main === module) {
-  startServer()
-    .then(({ host, port, path: serverPath }) => {
-      // eslint-disable-next-line no-console
-      console.log(`ticket-mcp listening on http://${host}:${port}${serverPath}`);
-    })
-    .catch((err) => {
-      // eslint-disable-next-line no-console
-      console.error(err);
-      process.exit(1);
-    });
-}
+/**
+ * Serve MCP over newline-delimited JSON-RPC on stdin/stdout. Stdout carries
+ * protocol messages only; anything diagnostic must go to stderr.
+ */
+export function startStdioServer(
+  config: ServerConfig = {},
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout,
+) {
+  const state = createServerState(config);
 
-async function readRequestBody(req: http.IncomingMessage): Promise<string> {
-  return await new Promise((resolve, reject) => {
-    let data = "";
-    req.on("data", (chunk) => {
-      data += chunk;
-    });
-    req.on("end", () => resolve(data));
-    req.on("error", (err) => reject(err));
+  const send = (message: JsonRpcResponse | JsonRpcResponse[] | JsonRpcNotification) => {
+    output.write(`${JSON.stringify(message)}\n`);
+  };
+  const subscriptions = new Set<string>();
+  const notify = (message: JsonRpcNotification) => {
+    if (wantsNotification(subscriptions, message)) send(message);
+  };
+  const watchers = state.watch
+    ? [...state.projects.values()].map((project) => startTicketWatcher(project, notify))
+    : [];
+
+  const ready = recoverProjects(state);
+  const sweeper = startLeaseSweeper(state, ready);
+
+  const rl = readline.createInterface({ input, terminal: false });
+  const pending = new Set<Promise<void>>();
+
+  rl.on("line", (line) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    const payload = parseJsonRpcPayload(trimmed);
+    if (payload instanceof RpcError) {
+      send({
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: payload.code, message: payload.message },
+      });
+      return;
+    }
+
+    const task = ready
+      .then(() => dispatchRpc(payload, { state, subscriptions }))
+      .then((response) => {
+        if (response !== null) send(response);
+      })
+      .catch((err) => {
+        process.stderr.write(`ticket-mcp: ${err?.stack ?? err}\n`);
+      })
+      .finally(() => pending.delete(task));
+    pending.add(task);
+  });
+
+  const closed = new Promise<void>((resolve) => {
+    rl.once("close", async () => {
+      for (const watcher of watchers) {
+        watcher?.close();
+      }
+      sweeper?.close();
+      await Promise.all(pending);
+      resolve();
+    });
+  });
+
+  return {
+    closed,
+    close() {
+      rl.close();
+      return closed;
+    },
+  };
+}
+
+function openEventStream(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  streams: Set<http.ServerResponse>,
+) {
+  const accept = String(req.headers.accept ?? "");
+  if (!accept.includes("text/event-stream")) {
+    res.writeHead(406, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "GET requires Accept: text/event-stream" }));
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.write(": connected\n\n");
+  streams.add(res);
+
+  const keepAlive = setInterval(() => res.write(": ping\n\n"), SSE_KEEPALIVE_MS);
+  keepAlive.unref();
+  res.on("close", () => {
+    clearInterval(keepAlive);
+    streams.delete(res);
+  });
+}
+
+function writeSseMessage(
+  stream: http.ServerResponse,
+  message: JsonRpcNotification | JsonRpcResponse | JsonRpcResponse[],
+) {
+  stream.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
+
+function writeJson(res: http.ServerResponse, status: number, payload: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(payload));
+}
+
+function headerValue(req: http.IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Plain-JSON clients (the UI, validate script) send no Accept header and keep
+ * getting JSON; only clients that accept SSE but not JSON get a stream back.
+ */
+function prefersEventStream(req: http.IncomingMessage): boolean {
+  const accept = String(req.headers.accept ?? "");
+  return accept.includes("text/event-stream") && !accept.includes("application/json");
+}
+
+function closeSession(session: McpSession) {
+  for (const stream of session.streams) {
+    stream.end();
+  }
+  session.streams.clear();
+}
+
+/**
+ * Drops sessions whose client went away without a DELETE. A session with an
+ * open stream is still in use, however long ago its last request was.
+ */
+function startSessionReaper(sessions: Map<string, McpSession>, idleSeconds: number) {
+  if (!(idleSeconds > 0)) return null;
+  const idleMs = idleSeconds * 1000;
+  const timer = setInterval(() => {
+    const cutoff = Date.now() - idleMs;
+    for (const session of sessions.values()) {
+      if (session.streams.size > 0 || session.lastSeen > cutoff) continue;
+      closeSession(session);
+      sessions.delete(session.id);
+    }
+  }, Math.min(idleMs, 60_000));
+  timer.unref();
+  return { close: () => clearInterval(timer) };
+}
+
+function wantsNotification(
+  subscriptions: Set<string>,
+  message: JsonRpcNotification,
+): boolean {
+  if (message.method !== "notifications/resources/updated") return true;
+  return subscriptions.has(message.params?.uri);
+}
+
+async function readRequestBody(req: http.IncomingMessage): Promise<string> {
+  return await new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => {
+      data += chunk;
+    });
+    req.on("end", () => resolve(data));
+    req.on("error", (err) => reject(err));
   });
 }
 
-async function handleRpc(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+function parseJsonRpcPayload(body: string): unknown | RpcError {
+  try {
+    return JSON.parse(body);
+  } catch (err: any) {
+    return new RpcError(-32700, `Parse error: ${err.message ?? "invalid JSON"}`);
+  }
+}
+
+function containsInitialize(payload: unknown): boolean {
+  const messages = Array.isArray(payload) ? payload : [payload];
+  return messages.some((message: any) => message?.method === "initialize");
+}
+
+/**
+ * Entry point for every transport. Accepts a single message or a JSON-RPC
+ * batch and returns null when nothing should be sent back (notifications and
+ * client responses only).
+ */
+async function dispatchRpc(
+  payload: unknown,
+  context: RpcContext,
+): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+  if (!Array.isArray(payload)) {
+    return await dispatchMessage(payload, context);
+  }
+
+  if (payload.length === 0) {
+    return {
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: -32600, message: "Invalid JSON-RPC request: empty batch" },
+    };
+  }
+
+  const responses = await Promise.all(
+    payload.map((message) => dispatchMessage(message, context)),
+  );
+  const answered = responses.filter(
+    (response): response is JsonRpcResponse => response !== null,
+  );
+  return answered.length > 0 ? answered : null;
+}
+
+async function dispatchMessage(
+  message: unknown,
+  context: RpcContext,
+): Promise<JsonRpcResponse | null> {
+  if (!message || typeof message !== "object" || Array.isArray(message)) {
+    return {
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: -32600, message: "Invalid JSON-RPC request" },
+    };
+  }
+
+  const candidate = message as Record<string, any>;
+  const isNotification = !("id" in candidate);
+
+  // Responses to server-initiated requests carry no method and need no answer.
+  if (
+    candidate.method === undefined &&
+    ("result" in candidate || "error" in candidate)
+  ) {
+    return null;
+  }
+
+  if (typeof candidate.method !== "string") {
+    return {
+      jsonrpc: "2.0",
+      id: isValidRpcId(candidate.id) ? candidate.id : null,
+      error: { code: -32600, message: "Invalid JSON-RPC request" },
+    };
+  }
+
+  // Lifecycle notifications (initialized, cancelled, ...) need no work here,
+  // and a notification never gets a response, not even "Method not found".
+  if (isNotification) {
+    return null;
+  }
+
+  return await handleRpc(candidate as JsonRpcRequest, context);
+}
+
+function isValidRpcId(id: unknown): id is string | number | null {
+  return id === null || typeof id === "string" || typeof id === "number";
+}
+
+async function handleRpc(
+  request: JsonRpcRequest,
+  context: RpcContext,
+): Promise<JsonRpcResponse> {
   if (!request || request.jsonrpc !== "2.0") {
     return {
       jsonrpc: "2.0",
@@ -421,9 +1402,13 @@ async function handleRpc(request: JsonRpcRequest): Promise<JsonRpcResponse> {
           jsonrpc: "2.0",
           id: request.id ?? null,
           result: {
-            protocolVersion: "2024-11-05",
+            protocolVersion: negotiateProtocolVersion(request.params?.protocolVersion),
             serverInfo: { name: "ticket-mcp", version: "0.1.0" },
-            capabilities: { tools: {} },
+            capabilities: {
+              tools: {},
+              resources: { listChanged: true, subscribe: true },
+              prompts: {},
+            },
           },
         };
       case "tools/list":
@@ -436,7 +1421,44 @@ async function handleRpc(request: JsonRpcRequest): Promise<JsonRpcResponse> {
         return {
           jsonrpc: "2.0",
           id: request.id ?? null,
-          result: await handleToolsCall(request.params),
+          result: await handleToolsCall(context.state, request.params),
+        };
+      case "resources/list":
+        return {
+          jsonrpc: "2.0",
+          id: request.id ?? null,
+          result: { resources: await listTicketResources(context.state) },
+        };
+      case "resources/templates/list":
+        return {
+          jsonrpc: "2.0",
+          id: request.id ?? null,
+          result: { resourceTemplates: RESOURCE_TEMPLATES },
+        };
+      case "resources/read":
+        return {
+          jsonrpc: "2.0",
+          id: request.id ?? null,
+          result: readTicketResource(context.state, request.params),
+        };
+      case "resources/subscribe":
+      case "resources/unsubscribe":
+        return {
+          jsonrpc: "2.0",
+          id: request.id ?? null,
+          result: updateSubscription(request.method, request.params, context),
+        };
+      case "prompts/list":
+        return {
+          jsonrpc: "2.0",
+          id: request.id ?? null,
+          result: { prompts: listPrompts(context.state) },
+        };
+      case "prompts/get":
+        return {
+          jsonrpc: "2.0",
+          id: request.id ?? null,
+          result: getPrompt(context.state, request.params),
         };
       default:
         return {
@@ -446,6 +1468,13 @@ async function handleRpc(request: JsonRpcRequest): Promise<JsonRpcResponse> {
         };
     }
   } catch (err: any) {
+    if (err instanceof RpcError) {
+      return {
+        jsonrpc: "2.0",
+        id: request.id ?? null,
+        error: { code: err.code, message: err.message, data: err.data },
+      };
+    }
     return {
       jsonrpc: "2.0",
       id: request.id ?? null,
@@ -454,7 +1483,7 @@ async function handleRpc(request: JsonRpcRequest): Promise<JsonRpcResponse> {
   }
 }
 
-async function handleToolsCall(params: any) {
+async function handleToolsCall(state: ServerState, params: any) {
   const name = params?.name as string | undefined;
   const args = params?.arguments ?? {};
 
@@ -464,29 +1493,72 @@ async function handleToolsCall(params: any) {
 
   const resolvedName = TOOL_ALIAS_LOOKUP.get(name) ?? name;
 
+  const definition = BASE_TOOL_DEFS.find((def) => def.name === resolvedName);
+  if (definition) {
+    const issues = validateJsonSchema(definition.inputSchema, args);
+    if (issues.length > 0) {
+      return toolResult({ error: `Invalid arguments for ${name}`, issues });
+    }
+  }
+
+  const project = resolveProject(state, args.project);
+  if ("error" in project) {
+    return toolResult(project);
+  }
+  const configError = resolvedName === "tickets.projects" ? null : refreshProjectConfig(project);
+  if (configError) {
+    return toolResult(configError);
+  }
+
   switch (resolvedName) {
+    case "tickets.projects":
+      return toolResult(listProjects(state));
+    case "tickets.config":
+      return toolResult(ticketConfig(project));
+    case "tickets.transitions":
+      return toolResult(await ticketTransitions(project, args));
+    case "tickets.graph":
+      return toolResult(ticketGraph(project, args));
     case "tickets.list":
-      return toolResult(await listTickets(args));
+      return toolResult(await listTickets(project, args));
     case "tickets.get":
-      return toolResult(await getTicket(args));
+      return toolResult(await getTicket(project, args));
     case "tickets.update":
-      return toolResult(await updateTicket(args));
+      return toolResult(await updateTicket(project, args));
     case "tickets.move":
-      return toolResult(await moveTicket(args));
+      return toolResult(await moveTicket(project, args));
     case "tickets.validate":
-      return toolResult(await validateTickets(args));
+      return toolResult(await validateTickets(project, args));
     case "tickets.stats":
-      return toolResult(await ticketStats());
+      return toolResult(await ticketStats(project));
     case "tickets.next_id":
-      return toolResult(await nextTicketId(args));
+      return toolResult(await nextTicketId(project, args));
     case "tickets.create":
-      return toolResult(await createTicket(args));
+      return toolResult(await createTicket(project, args));
     case "tickets.claim":
-      return toolResult(await claimTicket(args));
+      return toolResult(await claimTicket(project, args));
+    case "tickets.next":
+      return toolResult(await nextTicket(project, args));
+    case "tickets.heartbeat":
+      return toolResult(await heartbeatTicket(project, args));
+    case "tickets.sweep":
+      return toolResult(await sweepExpiredLeases(project));
+    case "tickets.release":
+      return toolResult(await releaseTicket(project, args));
+    case "tickets.reassign":
+      return toolResult(await reassignTicket(project, args));
+    case "tickets.handoff":
+      return toolResult(await handoffTicket(project, args));
     case "tickets.append_worklog":
-      return toolResult(await appendTicketWorklog(args));
+      return toolResult(await appendTicketWorklog(project, args));
     case "tickets.reconcile":
-      return toolResult(await reconcileTickets(args));
+      return toolResult(await reconcileTickets(project, args));
+    case "tickets.history":
+      return toolResult(await ticketHistory(project, args));
+    case "tickets.undo":
+      return toolResult(await undoOperation(project, args));
+    case "tickets.operations":
+      return toolResult(await listOperations(project, args));
     default:
       return toolResult({ error: `Unknown tool: ${name}` });
   }
@@ -496,52 +1568,1323 @@ function toolResult(data: any) {
   return {
     content: [{ type: "text", text: JSON.stringify(data) }],
     data,
+    isError: data?.error !== undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// MCP resources (ticket://<id> and the generated INDEX.md)
+// ---------------------------------------------------------------------------
+
+async function listTicketResources(state: ServerState) {
+  return [...state.projects.values()].flatMap((project) => listProjectResources(project));
+}
+
+function listProjectResources(project: Project) {
+  refreshProjectConfig(project);
+  const resources = listTicketSummaries(project)
+    .filter((summary) => summary.id !== "")
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((summary) => ({
+      uri: ticketResourceUri(project, summary.id),
+      name: summary.id,
+      title: summary.title,
+      description: `[${summary.status}] ${summary.title}`,
+      mimeType: "text/markdown",
+    }));
+
+  if (project.store.exists(path.join(project.ticketsRoot, "INDEX.md"))) {
+    resources.unshift({
+      uri: indexResourceUri(project),
+      name: `${project.uriPrefix}INDEX.md`,
+      title: "Ticket Index",
+      description: "Auto-generated index of all tickets grouped by status",
+      mimeType: "text/markdown",
+    });
+  }
+
+  return resources;
+}
+
+function readTicketResource(state: ServerState, params: any) {
+  const uri = typeof params?.uri === "string" ? params.uri : "";
+  if (!uri) {
+    throw new RpcError(-32602, "Missing resource uri");
+  }
+
+  const target = parseTicketResourceUri(state, uri);
+  if (!target) {
+    throw new RpcError(RESOURCE_NOT_FOUND, "Resource not found", { uri });
+  }
+  const { project } = target;
+  refreshProjectConfig(project);
+
+  if (target.index) {
+    const text = project.store.read(path.join(project.ticketsRoot, "INDEX.md"));
+    if (text === null) {
+      throw new RpcError(RESOURCE_NOT_FOUND, "Resource not found", { uri });
+    }
+    return {
+      contents: [{ uri, mimeType: "text/markdown", text }],
+    };
+  }
+
+  const filePath = findTicketById(project, target.id);
+  const record = filePath ? readTicket(project, filePath) : null;
+  if (!record) {
+    throw new RpcError(RESOURCE_NOT_FOUND, "Resource not found", { uri });
+  }
+
+  return {
+    contents: [
+      { uri, mimeType: "text/markdown", text: record.raw },
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify({
+          path: record.path,
+          frontmatter: record.frontmatter,
+          parse_error: record.parseError,
+        }),
+      },
+    ],
+  };
+}
+
+function updateSubscription(method: string, params: any, context: RpcContext) {
+  const uri = typeof params?.uri === "string" ? params.uri : "";
+  if (!uri) {
+    throw new RpcError(-32602, "Missing resource uri");
+  }
+  if (!context.subscriptions) {
+    throw new RpcError(-32600, "Subscriptions require a session (send initialize first)");
+  }
+  if (method === "resources/subscribe") {
+    context.subscriptions.add(uri);
+  } else {
+    context.subscriptions.delete(uri);
+  }
+  return {};
+}
+
+function negotiateProtocolVersion(requested: unknown): string {
+  if (typeof requested === "string" && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)) {
+    return requested;
+  }
+  return SUPPORTED_PROTOCOL_VERSIONS[0];
+}
+
+/** ticket://<id> in the default project, ticket://<project>/<id> elsewhere. */
+function ticketResourceUri(project: Project, id: string): string {
+  return `${TICKET_URI_SCHEME}${project.uriPrefix}${encodeURIComponent(id)}`;
+}
+
+function indexResourceUri(project: Project): string {
+  return `${TICKET_URI_SCHEME}${project.uriPrefix}INDEX.md`;
+}
+
+function parseTicketResourceUri(
+  state: ServerState,
+  uri: string,
+): { project: Project; index: boolean; id: string } | null {
+  if (!uri.startsWith(TICKET_URI_SCHEME)) return null;
+  let rest = uri.slice(TICKET_URI_SCHEME.length);
+  let project = state.defaultProject;
+
+  // Ids are percent-encoded, so a literal slash always ends a project name.
+  const slash = rest.indexOf("/");
+  if (slash !== -1) {
+    const named = state.projects.get(rest.slice(0, slash));
+    if (!named) return null;
+    project = named;
+    rest = rest.slice(slash + 1);
+  }
+  if (!rest) return null;
+  if (rest === "INDEX.md") return { project, index: true, id: "" };
+
+  try {
+    return { project, index: false, id: decodeURIComponent(rest) };
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Filesystem watcher -> resource change notifications
+// ---------------------------------------------------------------------------
+
+type WatchedTicket = { path: string; version: string };
+
+type WatchSnapshot = {
+  tickets: Map<string, WatchedTicket>;
+  index: string | null;
+};
+
+function startTicketWatcher(project: Project, notify: (message: JsonRpcNotification) => void) {
+  let snapshot = snapshotTickets(project);
+  let timer: NodeJS.Timeout | null = null;
+
+  const flush = () => {
+    timer = null;
+    const next = snapshotTickets(project);
+    const { listChanged, updated } = diffSnapshots(project, snapshot, next);
+    snapshot = next;
+
+    if (listChanged) {
+      notify({ jsonrpc: "2.0", method: "notifications/resources/list_changed" });
+    }
+    for (const uri of updated) {
+      notify({ jsonrpc: "2.0", method: "notifications/resources/updated", params: { uri } });
+    }
+  };
+
+  // A move is a write plus an unlink; debouncing folds both into one flush.
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, WATCH_DEBOUNCE_MS);
+    timer.unref();
+  };
+
+  // Without a watcher nothing would drop a stale file list, so stop keeping one.
+  const unwatched = () => {
+    project.cache.watched = false;
+    project.cache.files = null;
+  };
+  const watcher = project.store.watch((filePath) => {
+    // Folders count too: removing one takes its tickets with it.
+    if (filePath && path.extname(filePath) && !filePath.endsWith(".md")) return;
+    project.cache.files = null;
+    schedule();
+  }, unwatched);
+  if (!watcher) {
+    return null;
+  }
+  project.cache.watched = true;
+
+  return {
+    close() {
+      if (timer) clearTimeout(timer);
+      watcher.close();
+      unwatched();
+    },
+  };
+}
+
+function snapshotTickets(project: Project): WatchSnapshot {
+  const tickets = new Map<string, WatchedTicket>();
+  for (const entry of scanTickets(project)) {
+    const id = entry.summary.id;
+    if (!id || tickets.has(id)) continue;
+    tickets.set(id, { path: entry.record.path, version: entry.version });
+  }
+
+  const indexStamp = project.store.stat(path.join(project.ticketsRoot, "INDEX.md"));
+  return { tickets, index: indexStamp ? indexStamp.version : null };
+}
+
+function diffSnapshots(project: Project, before: WatchSnapshot, after: WatchSnapshot) {
+  let listChanged = false;
+  const updated: string[] = [];
+
+  for (const [id, entry] of after.tickets) {
+    const previous = before.tickets.get(id);
+    if (!previous) {
+      listChanged = true;
+      continue;
+    }
+    if (previous.path !== entry.path) {
+      listChanged = true;
+      updated.push(ticketResourceUri(project, id));
+    } else if (previous.version !== entry.version) {
+      updated.push(ticketResourceUri(project, id));
+    }
+  }
+  for (const id of before.tickets.keys()) {
+    if (!after.tickets.has(id)) listChanged = true;
+  }
+
+  if ((before.index === null) !== (after.index === null)) {
+    listChanged = true;
+  }
+  if (after.index !== null && before.index !== after.index) {
+    updated.push(indexResourceUri(project));
+  }
+
+  return { listChanged, updated };
+}
+
+// ---------------------------------------------------------------------------
+// MCP prompts (built-ins plus tickets/.prompts/*.md)
+// ---------------------------------------------------------------------------
+
+/** Every project's prompts; other projects' names carry their URI prefix (`api/triage`). */
+function listPrompts(state: ServerState) {
+  return [...state.projects.values()].flatMap((project) =>
+    loadPrompts(project).map(({ name, description, arguments: args }) => ({
+      name: `${project.uriPrefix}${name}`,
+      description,
+      arguments: args,
+    })),
+  );
+}
+
+/**
+ * Prompts come from the default project unless the name's prefix
+ * (`api/triage`) or `arguments.project` names another.
+ */
+function getPrompt(state: ServerState, params: any) {
+  let name = typeof params?.name === "string" ? params.name : "";
+  let projectName = params?.arguments?.project;
+  const slash = name.indexOf("/");
+  if (slash !== -1 && state.projects.has(name.slice(0, slash))) {
+    projectName = name.slice(0, slash);
+    name = name.slice(slash + 1);
+  }
+  const project = resolveProject(state, projectName);
+  if ("error" in project) {
+    throw new RpcError(-32602, project.error);
+  }
+  const prompt = loadPrompts(project).find((candidate) => candidate.name === name);
+  if (!prompt) {
+    throw new RpcError(-32602, `Unknown prompt: ${name}`);
+  }
+
+  const args: Record<string, string> = {};
+  for (const [key, value] of Object.entries(params?.arguments ?? {})) {
+    args[key] = String(value);
+  }
+  for (const arg of prompt.arguments) {
+    if (arg.required && !args[arg.name]) {
+      throw new RpcError(-32602, `Missing required argument: ${arg.name}`);
+    }
+  }
+
+  const variables: Record<string, string> = {
+    actor: "<your actor id>",
+    ...args,
+  };
+
+  if (args.ticket_id) {
+    const filePath = findTicketById(project, args.ticket_id);
+    const record = filePath ? readTicket(project, filePath) : null;
+    if (!record) {
+      throw new RpcError(-32602, `Ticket not found: ${args.ticket_id}`);
+    }
+    Object.assign(variables, ticketPromptVariables(record), args);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: "user",
+        content: { type: "text", text: renderTemplate(prompt.template, variables) },
+      },
+    ],
+  };
+}
+
+function loadPrompts(project: Project): PromptDefinition[] {
+  const prompts = new Map(BUILTIN_PROMPTS.map((prompt) => [prompt.name, prompt]));
+  const promptsDir = path.join(project.ticketsRoot, ".prompts");
+  for (const filePath of project.store.listFiles(promptsDir, ".md")) {
+    const raw = project.store.read(filePath);
+    if (raw === null) continue;
+    const parsed = parseFrontmatter(raw);
+    if (parsed.error) continue;
+
+    const name =
+      typeof parsed.frontmatter.name === "string" && parsed.frontmatter.name.trim()
+        ? parsed.frontmatter.name.trim()
+        : path.basename(filePath, ".md");
+    const args = Array.isArray(parsed.frontmatter.arguments)
+      ? parsed.frontmatter.arguments
+        .filter((arg: any) => arg && typeof arg.name === "string")
+        .map((arg: any) => ({
+          name: arg.name,
+          description: typeof arg.description === "string" ? arg.description : undefined,
+          required: arg.required === true,
+        }))
+      : [TICKET_ID_ARGUMENT];
+
+    // Team prompts override built-ins with the same name.
+    prompts.set(name, {
+      name,
+      description:
+        typeof parsed.frontmatter.description === "string"
+          ? parsed.frontmatter.description
+          : `Custom prompt from ${path.basename(filePath)}`,
+      arguments: args,
+      template: parsed.body.trim(),
+    });
+  }
+
+  return Array.from(prompts.values());
+}
+
+function ticketPromptVariables(record: TicketRecord): Record<string, string> {
+  const frontmatter = record.frontmatter;
+  const workLog = Array.isArray(frontmatter.work_log) ? frontmatter.work_log : [];
+  const recent = workLog.slice(-RECENT_WORK_LOG_ENTRIES).map(
+    (entry: WorkLogEntry) => `- ${entry.at} ${entry.actor} [${entry.kind}] ${entry.summary}`,
+  );
+
+  return {
+    id: String(frontmatter.id ?? ""),
+    title: String(frontmatter.title ?? ""),
+    status: String(frontmatter.status ?? ""),
+    path: record.path,
+    intent: String(frontmatter.intent ?? "").trim() || "(none)",
+    requirements: formatPromptList(frontmatter.requirements),
+    human_testing_steps: formatPromptList(frontmatter.human_testing_steps),
+    constraints: formatPromptList(frontmatter.constraints),
+    work_log: recent.length > 0 ? recent.join("\n") : "(no entries)",
   };
 }
 
-async function listTickets(filters: any): Promise<{ tickets: TicketSummary[] }> {
-  const files = await listTicketFiles();
+function formatPromptList(value: unknown): string {
+  const items = normalizeStringList(value);
+  return items.length > 0 ? items.map((item) => `- ${item}`).join("\n") : "(none)";
+}
+
+function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(variables, key) ? variables[key] : match,
+  );
+}
+
+async function listTickets(project: Project, filters: any) {
   const normalized = normalizeFilters(filters);
+  const unknown = [...Object.keys(normalized.fields), ...normalized.sort.map((key) => key.field)]
+    .filter((field) => !SORTABLE_BUILTINS.includes(field) && !customField(project.config, field));
+  if (unknown.length > 0) {
+    return { error: `Unknown field: ${unknown.join(", ")}` };
+  }
 
-  const tickets = files
-    .map((filePath) => readTicketSummary(filePath))
-    .filter((summary) => summary !== null)
-    .map((summary) => summary as TicketSummary)
-    .filter((summary) => ticketMatchesFilters(summary, normalized))
+  const tickets = listTicketSummaries(project)
+    .filter((summary) => ticketMatchesFilters(project, summary, normalized))
     .sort((a, b) => (b.updated_at ?? "").localeCompare(a.updated_at ?? ""));
+  if (normalized.sort.length > 0) {
+    // Stable sort: ties keep the most-recently-updated-first order.
+    tickets.sort((a, b) => compareSummaries(project, a, b, normalized.sort));
+  }
 
   return { tickets };
 }
 
-async function getTicket(params: any) {
-  const filePath = resolveTicketPath(params);
+async function getTicket(project: Project, params: any) {
+  const filePath = resolveTicketPath(project, params);
   if (!filePath) {
     return { error: "Ticket not found" };
   }
 
-  const record = readTicket(filePath);
-  if (!record) {
-    return { error: "Failed to read ticket" };
-  }
+  const record = readTicket(project, filePath);
+  if (!record) {
+    return { error: "Failed to read ticket" };
+  }
+
+  const issues = validateTicket(project, record.frontmatter, record.body, record.path);
+
+  return {
+    path: record.path,
+    revision: record.revision,
+    frontmatter: record.frontmatter,
+    body: record.body,
+    issues,
+    parse_error: record.parseError,
+  };
+}
+
+async function updateTicket(project: Project, params: any) {
+  return await mutateTickets(project, "tickets.update", (changes) =>
+    withTicketLockFor(project, params, () => applyTicketUpdate(project, params, changes)),
+  );
+}
+
+function applyTicketUpdate(project: Project, params: any, changes: TicketChange[]) {
+  const filePath = resolveTicketPath(project, params);
+  if (!filePath) {
+    return { error: "Ticket not found" };
+  }
+
+  const record = readTicket(project, filePath);
+  if (!record) {
+    return { error: "Failed to read ticket" };
+  }
+  if (record.parseError) {
+    return { error: "Ticket frontmatter parse error", issues: [record.parseError] };
+  }
+
+  const conflict = checkExpectedRevision(record, params);
+  if (conflict) return conflict;
+
+  const actor = resolveActor(params);
+  if (actor && typeof actor === "object") return actor;
+
+  const patch = params?.patch ?? {};
+  if ("status" in patch) {
+    // The transition matrix and its roles only apply to tickets.move.
+    return { error: "status cannot be patched; use tickets.move" };
+  }
+  const updatedFrontmatter = applyFrontmatterPatch(record.frontmatter, patch);
+  updatedFrontmatter.updated_at = new Date().toISOString();
+
+  const changed = Object.keys(patch).filter(
+    (field) => !isDeepStrictEqual(record.frontmatter[field], updatedFrontmatter[field]),
+  );
+  const denied =
+    checkFieldRoles(project, actor, changed) ??
+    (changed.some((field) => field === "claimed_by" || field === "claimed_at")
+      ? checkClaimRole(project, actor)
+      : null);
+  if (denied) return denied;
+
+  // A patch that changes nothing (a UI save of unedited fields) writes
+  // nothing, unless the caller has a work_log_entry to record.
+  if (changed.length === 0 && !params?.work_log_entry) {
+    const issues = validateTicket(project, record.frontmatter, record.body, filePath);
+    return { ok: true, path: filePath, revision: record.revision, unchanged: true, issues };
+  }
+
+  updatedFrontmatter.work_log = appendActorEntry(
+    updatedFrontmatter.work_log,
+    params,
+    actor,
+    `Updated ${changed.join(", ")}`,
+  );
+
+  const issues = [
+    ...validateTicket(project, updatedFrontmatter, record.body, filePath),
+    ...dependencyWriteIssues(project, updatedFrontmatter),
+  ];
+  if (project.strict && issues.length > 0) {
+    return { error: "Validation failed", issues };
+  }
+
+  const revision = writeTicket(project, filePath, updatedFrontmatter, record.body);
+  changes.push({
+    action: "update",
+    id: String(updatedFrontmatter.id ?? ""),
+    from_path: null,
+    to_path: filePath,
+    from_status: null,
+    to_status: null,
+    actor,
+    before: record.raw,
+    after: project.store.read(filePath),
+  });
+
+  return { ok: true, path: filePath, revision, issues };
+}
+
+/** The error tickets.move returns when the matrix or a guard forbids a move. */
+function checkTransition(
+  project: Project,
+  from: string,
+  to: string,
+  frontmatter: Record<string, any>,
+  body: string,
+  actor: string | null,
+) {
+  // A ticket with an unknown status can be moved back into shape, but only
+  // with what any way into the target requires.
+  const transition = statusNames(project.config).includes(from)
+    ? findTransition(project.config, from, to)
+    : transitionInto(project.config, to);
+  if (!transition) {
+    return {
+      error: `Transition not allowed: ${from} → ${to}`,
+      allowed: (transitionsFrom(project.config, from) ?? []).map((entry) => entry.to),
+    };
+  }
+
+  const denied = checkRole(project, actor, transition.roles, `move ${from} → ${to}`);
+  if (denied) return denied;
+
+  const failures = failedGuards(transition, frontmatter, body);
+  if (failures.length > 0) {
+    return {
+      error: `Guard failed for ${from} → ${to}`,
+      failed_guards: failures.map((failure) => failure.guard),
+      issues: failures.map((failure) => `${failure.guard}: ${failure.message}`),
+    };
+  }
+  return null;
+}
+
+/**
+ * The acting identity: `actor`, or the work_log_entry's actor. An object is
+ * an error to return as is.
+ */
+function resolveActor(params: any): string | null | { error: string } {
+  const explicit = typeof params?.actor === "string" ? params.actor.trim() : "";
+  const entryActor =
+    typeof params?.work_log_entry?.actor === "string" ? params.work_log_entry.actor.trim() : "";
+  if (explicit && entryActor && explicit !== entryActor) {
+    return { error: `actor (${explicit}) and work_log_entry.actor (${entryActor}) differ` };
+  }
+  return explicit || entryActor || null;
+}
+
+/** The error returned when `actor`'s role is not in `roles` (undefined allows anyone). */
+function checkRole(
+  project: Project,
+  actor: string | null,
+  roles: string[] | undefined,
+  what: string,
+) {
+  if (!roles) return null;
+  const role = actorRole(project.config, actor);
+  if (roles.includes(role)) return null;
+  return {
+    error: `${actor ?? "anonymous"} (${role}) may not ${what}; allowed roles: ${roles.join(", ")}`,
+    role,
+    required_roles: roles,
+  };
+}
+
+/** Claiming (or editing claim fields) needs the roles of the claim.from → claim.to move. */
+function checkClaimRole(project: Project, actor: string | null) {
+  const { from, to } = project.config.claim;
+  const roles = findTransition(project.config, from, to)?.roles;
+  return checkRole(project, actor, roles, "claim tickets");
+}
+
+function checkFieldRoles(project: Project, actor: string | null, fields: string[]) {
+  for (const field of fields) {
+    const denied = checkRole(project, actor, project.config.field_roles[field], `edit ${field}`);
+    if (denied) return denied;
+  }
+  return null;
+}
+
+/**
+ * Appends the caller's work_log_entry, or, when only an actor is known, a
+ * note recording what they did.
+ */
+function appendActorEntry(workLog: unknown, params: any, actor: string | null, summary: string) {
+  if (params?.work_log_entry) return appendWorkLog(workLog, withTimestamp(params.work_log_entry));
+  if (!actor) return workLog;
+  return appendWorkLog(workLog, { at: new Date().toISOString(), actor, kind: "note", summary });
+}
+
+/** Every status the ticket could move to, with the guards it currently fails. */
+async function ticketTransitions(project: Project, params: any) {
+  const filePath = resolveTicketPath(project, params);
+  if (!filePath) {
+    return { error: "Ticket not found" };
+  }
+  const record = readTicket(project, filePath);
+  if (!record) {
+    return { error: "Failed to read ticket" };
+  }
+
+  const actor = resolveActor(params);
+  if (actor && typeof actor === "object") return actor;
+
+  const from = String(record.frontmatter.status ?? "");
+  const known = statusNames(project.config).includes(from);
+  const configured = known ? transitionsFrom(project.config, from) : null;
+  const candidates =
+    configured ??
+    statusNames(project.config)
+      .filter((status) => status !== from)
+      .map((status) => transitionInto(project.config, status));
+
+  return {
+    id: String(record.frontmatter.id ?? ""),
+    status: from,
+    restricted: project.config.transitions !== null,
+    role: actorRole(project.config, actor),
+    transitions: candidates.map((transition: Transition) => {
+      const failures = failedGuards(transition, record.frontmatter, record.body);
+      const denied = checkRole(project, actor, transition.roles, "move");
+      return {
+        to: transition.to,
+        guards: transition.guards,
+        roles: transition.roles ?? null,
+        allowed: failures.length === 0 && !denied,
+        failed_guards: failures,
+      };
+    }),
+  };
+}
+
+async function moveTicket(project: Project, params: any) {
+  return await mutateTickets(project, "tickets.move", (changes) =>
+    withTicketLockFor(project, params, () => applyTicketMove(project, params, changes)),
+  );
+}
+
+function applyTicketMove(project: Project, params: any, changes: TicketChange[]) {
+  const filePath = resolveTicketPath(project, params);
+  if (!filePath) {
+    return { error: "Ticket not found" };
+  }
+
+  const targetStatus = String(params?.to_status ?? "");
+  if (!statusNames(project.config).includes(targetStatus)) {
+    return { error: formatInvalidStatus(project, targetStatus) };
+  }
+
+  const record = readTicket(project, filePath);
+  if (!record) {
+    return { error: "Failed to read ticket" };
+  }
+  if (record.parseError) {
+    return { error: "Ticket frontmatter parse error", issues: [record.parseError] };
+  }
+
+  const conflict = checkExpectedRevision(record, params);
+  if (conflict) return conflict;
+
+  const actor = resolveActor(params);
+  if (actor && typeof actor === "object") return actor;
+
+  const fromStatus = String(record.frontmatter.status ?? "");
+  const updatedFrontmatter = { ...record.frontmatter };
+  updatedFrontmatter.status = targetStatus;
+  updatedFrontmatter.updated_at = new Date().toISOString();
+  endLeaseOutsideClaim(project, updatedFrontmatter);
+  updatedFrontmatter.work_log = appendActorEntry(
+    updatedFrontmatter.work_log,
+    params,
+    actor,
+    `Moved ${fromStatus} → ${targetStatus}`,
+  );
+
+  // Guards see the ticket as it would be written, so the handoff can come
+  // with the move itself.
+  const forbidden = checkTransition(
+    project,
+    fromStatus,
+    targetStatus,
+    updatedFrontmatter,
+    record.body,
+    actor,
+  );
+  if (forbidden) return forbidden;
+
+  const destination = resolvePathForStatus(project, filePath, targetStatus);
+  if (!destination) {
+    return { error: "Unable to resolve destination path" };
+  }
+
+  const issues = [
+    ...validateTicket(project, updatedFrontmatter, record.body, destination),
+    ...dependencyWriteIssues(project, updatedFrontmatter),
+  ];
+  if (project.strict && issues.length > 0) {
+    return { error: "Validation failed", issues };
+  }
+  const revision = writeTicketTo(project, filePath, destination, updatedFrontmatter, record.body);
+  changes.push({
+    action: "move",
+    id: String(updatedFrontmatter.id ?? ""),
+    from_path: filePath,
+    to_path: destination,
+    from_status: fromStatus,
+    to_status: targetStatus,
+    actor,
+    before: record.raw,
+    after: project.store.read(destination),
+  });
+
+  return { ok: true, path: destination, revision, issues };
+}
+
+async function validateTickets(project: Project, params: any) {
+  const filePath = resolveTicketPath(project, params);
+  if (filePath) {
+    const record = readTicket(project, filePath);
+    if (!record) {
+      return { error: "Failed to read ticket" };
+    }
+    const issues = validateTicket(project, record.frontmatter, record.body, filePath);
+    if (record.parseError) {
+      issues.push(record.parseError);
+    }
+    issues.push(...dependencyIssues(dependencyGraph(project), String(record.frontmatter.id ?? "")));
+    return { path: filePath, issues };
+  }
+
+  const files = await listTicketFiles(project);
+  const graph = dependencyGraph(project);
+  const pathsById = new Map<string, string[]>();
+  const results = files
+    .map((candidate) => {
+      const record = readTicket(project, candidate);
+      if (!record) {
+        return { path: candidate, issues: ["Failed to read ticket"] };
+      }
+      const issues = validateTicket(project, record.frontmatter, record.body, candidate);
+      if (record.parseError) {
+        issues.push(record.parseError);
+      }
+      const id = String(record.frontmatter.id ?? "");
+      if (id) {
+        pathsById.set(id, [...(pathsById.get(id) ?? []), candidate]);
+        issues.push(...dependencyIssues(graph, id));
+      }
+      return { path: candidate, id, issues };
+    });
+
+  // Two files with one id (e.g. a move interrupted before recovery ran) make
+  // id lookups ambiguous.
+  for (const entry of results) {
+    const others = (pathsById.get(entry.id ?? "") ?? []).filter((other) => other !== entry.path);
+    if (others.length > 0) {
+      entry.issues.push(`Duplicate ticket id ${entry.id}; also at ${others.join(", ")}`);
+    }
+  }
+
+  return {
+    issues: results
+      .filter((entry) => entry.issues.length > 0)
+      .map(({ path: entryPath, issues }) => ({ path: entryPath, issues })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Dependency graph (depends_on)
+// ---------------------------------------------------------------------------
+
+function dependencyNode(project: Project, frontmatter: Record<string, any>): DependencyNode {
+  const status = String(frontmatter.status ?? "");
+  return {
+    id: String(frontmatter.id ?? ""),
+    title: String(frontmatter.title ?? ""),
+    status,
+    epic: String(frontmatter.epic ?? ""),
+    depends_on: Array.isArray(frontmatter.depends_on) ? normalizeStringList(frontmatter.depends_on) : [],
+    finished: isTerminalStatus(project.config, status),
+  };
+}
+
+/** Every ticket's dependencies; `pending` stands in for a ticket about to be written. */
+function dependencyGraph(project: Project, pending?: Record<string, any>) {
+  const nodes = scanTickets(project).map((entry) =>
+    dependencyNode(project, entry.record.frontmatter),
+  );
+  if (!pending) return buildDependencyGraph(nodes);
+  const written = dependencyNode(project, pending);
+  return buildDependencyGraph([written, ...nodes.filter((node) => node.id !== written.id)]);
+}
+
+/** validateTicket's dependency checks for a write, which need the other tickets. */
+function dependencyWriteIssues(project: Project, frontmatter: Record<string, any>): string[] {
+  return dependencyIssues(dependencyGraph(project, frontmatter), String(frontmatter.id ?? ""));
+}
+
+function ticketGraph(project: Project, params: any) {
+  const graph = dependencyGraph(project);
+  let ids = [...graph.keys()];
+
+  if (typeof params?.id === "string") {
+    if (!graph.has(params.id)) return { error: "Ticket not found" };
+    const related = relatedTickets(graph, params.id);
+    ids = ids.filter((id) => related.has(id));
+  }
+  if (typeof params?.epic === "string") {
+    ids = ids.filter((id) => graph.get(id)!.epic === params.epic);
+  }
+
+  const included = new Set(ids);
+  const edges = ids.flatMap((id) =>
+    graph
+      .get(id)!
+      .depends_on.filter((dependency) => included.has(dependency))
+      .map((dependency) => ({ from: id, to: dependency })),
+  );
+  const missing = ids.flatMap((id) =>
+    graph
+      .get(id)!
+      .depends_on.filter((dependency) => !graph.has(dependency))
+      .map((dependency) => ({ from: id, to: dependency })),
+  );
+
+  return {
+    nodes: ids.map((id) => graph.get(id)!),
+    edges,
+    missing,
+    cycles: findCycles(graph).filter((cycle) => cycle.some((id) => included.has(id))),
+    mermaid: dependencyMermaid(graph, ids),
+  };
+}
+
+function listProjects(state: ServerState) {
+  return {
+    default: state.defaultProject.name,
+    projects: [...state.projects.values()].map((project) => ({
+      name: project.name,
+      repo_root: project.repoRoot,
+      tickets_root: project.ticketsRoot,
+      storage: project.store.kind,
+      strict: project.strict,
+      git_commit: project.gitCommit,
+      tickets: listTicketSummaries(project).length,
+    })),
+  };
+}
+
+function ticketConfig(project: Project) {
+  const { config } = project;
+  return {
+    source:
+      project.configVersion === null ? null : path.join(project.ticketsRoot, TICKET_CONFIG_FILE),
+    statuses: config.statuses.map((status) => ({
+      name: status.name,
+      folder: status.folder,
+      label: statusLabel(config, status.name),
+      terminal: status.terminal === true,
+    })),
+    required_fields: config.required_fields,
+    required_sections: config.required_sections,
+    defaults: config.defaults,
+    index_order: config.index_order,
+    fields: config.fields,
+    transitions: config.transitions,
+    roles: config.roles,
+    field_roles: config.field_roles,
+  };
+}
+
+async function ticketStats(project: Project) {
+  const summaries = listTicketSummaries(project);
+
+  const counts = {
+    status: {} as Record<string, number>,
+    area: {} as Record<string, number>,
+    epic: {} as Record<string, number>,
+  };
+
+  for (const summary of summaries) {
+    increment(counts.status, summary.status || "unknown");
+    increment(counts.area, summary.area || "unknown");
+    increment(counts.epic, summary.epic || "unassigned");
+  }
+
+  const ticketNumbers = summaries
+    .map((summary) => extractTicketNumber(summary.id))
+    .filter((value): value is number => value !== null);
+  const highestTicketNumber =
+    ticketNumbers.length > 0 ? Math.max(...ticketNumbers) : 0;
+
+  return {
+    ...counts,
+    highest_ticket_number: highestTicketNumber,
+    next_ticket_number: highestTicketNumber + 1,
+    cache: cacheReport(project),
+  };
+}
+
+async function nextTicketId(project: Project, params: any) {
+  const summaries = listTicketSummaries(project);
+
+  const ticketNumbers = summaries
+    .map((summary) => extractTicketNumber(summary.id))
+    .filter((value): value is number => value !== null);
+  const highestTicketNumber =
+    ticketNumbers.length > 0 ? Math.max(...ticketNumbers) : 0;
+  const nextTicketNumber = highestTicketNumber + 1;
+
+  const prefix = typeof params?.prefix === "string" ? params.prefix : "T";
+  const separator = typeof params?.separator === "string" ? params.separator : "-";
+  const padding =
+    typeof params?.padding === "number" && Number.isFinite(params.padding)
+      ? Math.max(0, Math.floor(params.padding))
+      : 3;
+
+  const numericPart =
+    padding > 0 ? String(nextTicketNumber).padStart(padding, "0") : String(nextTicketNumber);
+  const suggestedId = prefix ? `${prefix}${separator}${numericPart}` : numericPart;
+
+  return {
+    highest_ticket_number: highestTicketNumber,
+    next_ticket_number: nextTicketNumber,
+    suggested_id: suggestedId,
+  };
+}
+
+async function claimTicket(project: Project, params: any) {
+  return await mutateTickets(project, "tickets.claim", (changes) =>
+    withTicketLockFor(project, params, () => applyTicketClaim(project, params, changes)),
+  );
+}
+
+function applyTicketClaim(project: Project, params: any, changes: TicketChange[]) {
+  const filePath = resolveTicketPath(project, params);
+  if (!filePath) {
+    return { error: "Ticket not found" };
+  }
+
+  const actor = String(params?.actor ?? "").trim();
+  if (!actor) {
+    return { error: "Missing actor" };
+  }
+
+  const record = readTicket(project, filePath);
+  if (!record) {
+    return { error: "Failed to read ticket" };
+  }
+  if (record.parseError) {
+    return { error: "Ticket frontmatter parse error", issues: [record.parseError] };
+  }
+
+  const conflict = checkExpectedRevision(record, params);
+  if (conflict) return conflict;
+
+  const { from, to } = project.config.claim;
+  if (record.frontmatter.status !== from) {
+    return {
+      error: `Ticket must be ${from} to claim (current status: ${String(record.frontmatter.status ?? "unknown")})`,
+    };
+  }
+  const denied = checkClaimRole(project, actor);
+  if (denied) return denied;
+
+  const open = openDependencies(project, record.frontmatter);
+  if (open.length > 0 && params?.force !== true) {
+    return {
+      error: `Ticket has unfinished dependencies: ${open
+        .map((dependency) => `${dependency.id} (${dependency.status})`)
+        .join(", ")}; pass force: true to claim anyway`,
+      open_dependencies: open,
+    };
+  }
+
+  const now = new Date().toISOString();
+  const updatedFrontmatter = { ...record.frontmatter };
+  updatedFrontmatter.status = to;
+  updatedFrontmatter.claimed_by = actor;
+  updatedFrontmatter.claimed_at = now;
+  updatedFrontmatter.updated_at = now;
+  // A lease left over from an earlier claim must not expire this one.
+  if (typeof params?.lease_minutes === "number") {
+    updatedFrontmatter.lease_expires_at = leaseExpiry(params.lease_minutes);
+  } else {
+    delete updatedFrontmatter.lease_expires_at;
+  }
+  updatedFrontmatter.work_log = appendWorkLog(updatedFrontmatter.work_log, {
+    at: now,
+    actor,
+    kind: "claim",
+    summary:
+      typeof params?.summary === "string" && params.summary.trim().length > 0
+        ? params.summary.trim()
+        : "Claimed ticket for implementation",
+    details: params?.details,
+  });
+
+  const destination = resolvePathForStatus(project, filePath, to);
+  if (!destination) {
+    return { error: "Unable to resolve destination path" };
+  }
+
+  const issues = validateTicket(project, updatedFrontmatter, record.body, destination);
+  if (project.strict && issues.length > 0) {
+    return { error: "Validation failed", issues };
+  }
+  const revision = writeTicketTo(project, filePath, destination, updatedFrontmatter, record.body);
+  changes.push({
+    action: "claim",
+    id: String(updatedFrontmatter.id ?? ""),
+    from_path: filePath,
+    to_path: destination,
+    from_status: from,
+    to_status: to,
+    actor,
+    before: record.raw,
+    after: project.store.read(destination),
+  });
+
+  return { ok: true, path: destination, revision, issues };
+}
+
+/**
+ * Tickets in claim.from the actor could claim, best first: dependencies finished,
+ * then by the priority field's order (unset last), then oldest.
+ */
+function claimableTickets(project: Project, params: any) {
+  const priority = customField(project.config, "priority");
+  const rank = (summary: TicketSummary) => {
+    if (priority?.type !== "enum") return 0;
+    const index = (priority.values ?? []).indexOf(String(summary.fields?.priority ?? ""));
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+  };
+
+  const graph = dependencyGraph(project);
+  const ready: TicketSummary[] = [];
+  const blocked: { id: string; open_dependencies: { id: string; status: string }[] }[] = [];
+  for (const entry of scanTickets(project)) {
+    const { summary } = entry;
+    if (summary.status !== project.config.claim.from) continue;
+    if (typeof params?.area === "string" && summary.area !== params.area) continue;
+    if (typeof params?.epic === "string" && summary.epic !== params.epic) continue;
+
+    const open = openDependencies(project, entry.record.frontmatter, graph);
+    if (open.length > 0) blocked.push({ id: summary.id, open_dependencies: open });
+    else ready.push(summary);
+  }
+
+  ready.sort(
+    (a, b) =>
+      rank(a) - rank(b) ||
+      String(a.created_at ?? "\uffff").localeCompare(String(b.created_at ?? "\uffff")) ||
+      a.id.localeCompare(b.id),
+  );
+  return { ready, blocked };
+}
+
+/** depends_on entries that are not finished; unknown ids count as "missing". */
+function openDependencies(
+  project: Project,
+  frontmatter: Record<string, any>,
+  graph = dependencyGraph(project),
+) {
+  return dependencyNode(project, frontmatter)
+    .depends_on.filter((id) => !graph.get(id)?.finished)
+    .map((id) => ({ id, status: graph.get(id)?.status ?? "missing" }));
+}
+
+async function nextTicket(project: Project, params: any) {
+  const actor = String(params?.actor ?? "").trim();
+  if (!actor) {
+    return { error: "Missing actor" };
+  }
+  const denied = checkClaimRole(project, actor);
+  if (denied) return denied;
+
+  const { ready, blocked } = claimableTickets(project, params);
+  if (params?.claim !== true) {
+    return { ticket: ready[0] ?? null, ready: ready.length, blocked };
+  }
+
+  // Another agent may claim a candidate first; the ticket lock makes each
+  // attempt atomic, and on a lost race we move on to the next one. If every
+  // attempt fails, the last failure is the answer.
+  return await mutateTickets(project, "tickets.next", async (changes) => {
+    let failure = null;
+    for (const candidate of ready) {
+      const claimParams = {
+        id: candidate.id,
+        actor,
+        summary: params?.summary,
+        details: params?.details,
+        lease_minutes: params?.lease_minutes,
+      };
+      const claimed = await withTicketLockFor(project, claimParams, () =>
+        applyTicketClaim(project, claimParams, changes),
+      );
+      if ("ok" in claimed && claimed.path) {
+        return { ...claimed, ticket: loadTicket(project, claimed.path)?.summary ?? null };
+      }
+      failure = claimed;
+    }
+    return failure ?? { ticket: null, ready: 0, blocked };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Claim leases: heartbeat renewal and the expired-lease sweep
+// ---------------------------------------------------------------------------
+
+const LEASE_SWEEP_ACTOR = "ticket-mcp:lease-sweep";
+
+function leaseExpiry(minutes: number, from = Date.now()): string {
+  return new Date(from + minutes * 60_000).toISOString();
+}
+
+/** A lease only holds while the ticket is in claim.to; leaving it ends the lease. */
+function endLeaseOutsideClaim(project: Project, frontmatter: Record<string, any>) {
+  if (frontmatter.status !== project.config.claim.to) delete frontmatter.lease_expires_at;
+}
+
+/** Claimed (in claim.to) under a lease that has run out. */
+function isStale(project: Project, summary: TicketSummary, now: number): boolean {
+  return (
+    summary.status === project.config.claim.to &&
+    typeof summary.lease_expires_at === "string" &&
+    Date.parse(summary.lease_expires_at) <= now
+  );
+}
+
+async function heartbeatTicket(project: Project, params: any) {
+  return await mutateTickets(project, "tickets.heartbeat", (changes) =>
+    withTicketLockFor(project, params, () => applyTicketHeartbeat(project, params, changes)),
+  );
+}
+
+function applyTicketHeartbeat(project: Project, params: any, changes: TicketChange[]) {
+  const filePath = resolveTicketPath(project, params);
+  if (!filePath) {
+    return { error: "Ticket not found" };
+  }
+  const actor = String(params?.actor ?? "").trim();
+  if (!actor) {
+    return { error: "Missing actor" };
+  }
+
+  const record = readTicket(project, filePath);
+  if (!record) {
+    return { error: "Failed to read ticket" };
+  }
+  if (record.parseError) {
+    return { error: "Ticket frontmatter parse error", issues: [record.parseError] };
+  }
+
+  const conflict = checkExpectedRevision(record, params);
+  if (conflict) return conflict;
+
+  const claimedStatus = project.config.claim.to;
+  if (record.frontmatter.status !== claimedStatus) {
+    return {
+      error: `Ticket must be ${claimedStatus} to renew its lease (current status: ${String(record.frontmatter.status ?? "unknown")})`,
+    };
+  }
+  const notClaimant = claimantError(record.frontmatter, actor);
+  if (notClaimant) {
+    return { error: notClaimant };
+  }
+
+  const updatedFrontmatter = { ...record.frontmatter };
+  updatedFrontmatter.lease_expires_at = leaseExpiry(params?.lease_minutes ?? DEFAULT_LEASE_MINUTES);
+  updatedFrontmatter.updated_at = new Date().toISOString();
+
+  const revision = writeTicket(project, filePath, updatedFrontmatter, record.body);
+  changes.push({
+    action: "heartbeat",
+    id: String(updatedFrontmatter.id ?? ""),
+    from_path: null,
+    to_path: filePath,
+    from_status: null,
+    to_status: null,
+    actor,
+    before: record.raw,
+    after: project.store.read(filePath),
+  });
+
+  return {
+    ok: true,
+    path: filePath,
+    revision,
+    lease_expires_at: updatedFrontmatter.lease_expires_at,
+  };
+}
+
+/** Why `actor` does not hold the ticket's claim, or null if they do. */
+function claimantError(frontmatter: Record<string, any>, actor: string): string | null {
+  if (frontmatter.claimed_by === actor) return null;
+  return `Ticket is claimed by ${String(frontmatter.claimed_by ?? "nobody")}, not ${actor}`;
+}
+
+/** Releases every stale ticket; each one is re-checked under its lock. */
+async function sweepExpiredLeases(project: Project) {
+  const now = Date.now();
+  const stale = listTicketSummaries(project).filter((summary) => isStale(project, summary, now));
+  return await mutateTickets(project, "tickets.sweep", async (changes) => {
+    const released = [];
+    for (const summary of stale) {
+      const outcome = await withTicketLock(project, summary.path, () =>
+        applyLeaseExpiry(project, summary.path, changes),
+      );
+      if (outcome) released.push(outcome);
+    }
+    return { released };
+  });
+}
+
+function applyLeaseExpiry(project: Project, filePath: string, changes: TicketChange[]) {
+  const entry = loadTicket(project, filePath);
+  // Renewed or released while we waited for the lock.
+  if (!entry || entry.record.parseError || !isStale(project, entry.summary, Date.now())) return null;
+  const { record } = entry;
+
+  const { from, to } = project.config.claim;
+  const destination = resolvePathForStatus(project, filePath, from);
+  if (!destination) return null;
 
-  const issues = validateTicket(record.frontmatter, record.body, record.path);
+  const claimedBy = record.frontmatter.claimed_by ?? null;
+  const expiredAt = String(record.frontmatter.lease_expires_at);
+  const now = new Date().toISOString();
+  const updatedFrontmatter = { ...record.frontmatter };
+  updatedFrontmatter.status = from;
+  updatedFrontmatter.claimed_by = null;
+  updatedFrontmatter.claimed_at = null;
+  delete updatedFrontmatter.lease_expires_at;
+  updatedFrontmatter.updated_at = now;
+  updatedFrontmatter.work_log = appendWorkLog(updatedFrontmatter.work_log, {
+    at: now,
+    actor: LEASE_SWEEP_ACTOR,
+    kind: "handoff",
+    summary: `Lease of ${claimedBy ?? "unknown claimant"} expired at ${expiredAt}; returned to ${from}`,
+  });
 
+  const issues = validateTicket(project, updatedFrontmatter, record.body, destination);
+  if (project.strict && issues.length > 0) {
+    process.stderr.write(`ticket-mcp: not releasing ${filePath}: ${issues.join("; ")}\n`);
+    return null;
+  }
+  writeTicketTo(project, filePath, destination, updatedFrontmatter, record.body);
+  changes.push({
+    action: "release",
+    id: String(updatedFrontmatter.id ?? ""),
+    from_path: filePath,
+    to_path: destination,
+    from_status: to,
+    to_status: from,
+    actor: LEASE_SWEEP_ACTOR,
+    before: record.raw,
+    after: project.store.read(destination),
+  });
   return {
-    path: record.path,
-    frontmatter: record.frontmatter,
-    body: record.body,
-    issues,
-    parse_error: record.parseError,
+    id: String(updatedFrontmatter.id ?? ""),
+    claimed_by: claimedBy,
+    lease_expires_at: expiredAt,
+    path: destination,
   };
 }
 
-async function updateTicket(params: any) {
-  const filePath = resolveTicketPath(params);
+/** Sweeps every project on a timer when leaseSweepSeconds is set. */
+function startLeaseSweeper(state: ServerState, ready: Promise<unknown>) {
+  if (!(state.leaseSweepSeconds > 0)) return null;
+  const timer = setInterval(() => {
+    ready
+      .then(() =>
+        Promise.all(
+          [...state.projects.values()].map((project) => {
+            if (refreshProjectConfig(project)) return null;
+            return sweepExpiredLeases(project);
+          }),
+        ),
+      )
+      .catch((err) => {
+        process.stderr.write(`ticket-mcp: lease sweep failed: ${err?.message ?? err}\n`);
+      });
+  }, state.leaseSweepSeconds * 1000);
+  timer.unref();
+  return { close: () => clearInterval(timer) };
+}
+
+// ---------------------------------------------------------------------------
+// Giving up and handing over claims
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads the claimed ticket named by params for release/reassign, checking
+ * that `actor` holds the claim unless force is set.
+ */
+function readClaimedTicket(project: Project, params: any, verb: string) {
+  const filePath = resolveTicketPath(project, params);
   if (!filePath) {
     return { error: "Ticket not found" };
   }
+  const actor = String(params?.actor ?? "").trim();
+  if (!actor) {
+    return { error: "Missing actor" };
+  }
 
-  const record = readTicket(filePath);
+  const record = readTicket(project, filePath);
   if (!record) {
     return { error: "Failed to read ticket" };
   }
@@ -549,185 +2892,179 @@ async function updateTicket(params: any) {
     return { error: "Ticket frontmatter parse error", issues: [record.parseError] };
   }
 
-  const patch = params?.patch ?? {};
-  const updatedFrontmatter = applyFrontmatterPatch(record.frontmatter, patch);
-  updatedFrontmatter.updated_at = new Date().toISOString();
+  const conflict = checkExpectedRevision(record, params);
+  if (conflict) return conflict;
 
-  if (params?.work_log_entry) {
-    updatedFrontmatter.work_log = appendWorkLog(
-      updatedFrontmatter.work_log,
-      params.work_log_entry,
-    );
+  if (!record.frontmatter.claimed_by) {
+    return { error: "Ticket is not claimed" };
   }
-
-  const issues = validateTicket(updatedFrontmatter, record.body, filePath);
-  if (strictMode && issues.length > 0) {
-    return { error: "Validation failed", issues };
+  // Handoff keeps claimed_by, but the claim ends when the ticket leaves claim.to.
+  const claimedStatus = project.config.claim.to;
+  if (record.frontmatter.status !== claimedStatus) {
+    return {
+      error: `Ticket must be ${claimedStatus} to ${verb} (current status: ${String(record.frontmatter.status ?? "unknown")})`,
+    };
   }
-
-  writeTicket(filePath, updatedFrontmatter, record.body);
-  regenerateIndex().catch(() => { });
-
-  return { ok: true, path: filePath, issues };
-}
-
-async function moveTicket(params: any) {
-  const filePath = resolveTicketPath(params);
-  if (!filePath) {
-    return { error: "Ticket not found" };
+  const notClaimant = claimantError(record.frontmatter, actor);
+  if (notClaimant && params?.force !== true) {
+    return { error: `${notClaimant}; pass force: true to ${verb} anyway` };
   }
+  return { filePath, actor, record };
+}
 
-  const targetStatus = params?.to_status as TicketStatus;
-  if (!TicketStatusValues.includes(targetStatus)) {
-    return { error: formatInvalidStatus(targetStatus) };
-  }
+async function releaseTicket(project: Project, params: any) {
+  return await mutateTickets(project, "tickets.release", (changes) =>
+    withTicketLockFor(project, params, () => applyTicketRelease(project, params, changes)),
+  );
+}
 
-  const record = readTicket(filePath);
-  if (!record) {
-    return { error: "Failed to read ticket" };
-  }
-  if (record.parseError) {
-    return { error: "Ticket frontmatter parse error", issues: [record.parseError] };
+function applyTicketRelease(project: Project, params: any, changes: TicketChange[]) {
+  const reason = String(params?.reason ?? "").trim();
+  if (!reason) {
+    return { error: "Missing reason" };
   }
+  const claimed = readClaimedTicket(project, params, "release");
+  if ("error" in claimed) return claimed;
+  const { filePath, actor, record } = claimed;
 
+  const fromStatus = String(record.frontmatter.status ?? "");
+  const toStatus = project.config.claim.from;
+  const claimedBy = String(record.frontmatter.claimed_by);
+  const now = new Date().toISOString();
   const updatedFrontmatter = { ...record.frontmatter };
-  updatedFrontmatter.status = targetStatus;
-  updatedFrontmatter.updated_at = new Date().toISOString();
+  updatedFrontmatter.status = toStatus;
+  updatedFrontmatter.claimed_by = null;
+  updatedFrontmatter.claimed_at = null;
+  delete updatedFrontmatter.lease_expires_at;
+  updatedFrontmatter.updated_at = now;
+  updatedFrontmatter.work_log = appendWorkLog(updatedFrontmatter.work_log, {
+    at: now,
+    actor,
+    kind: "handoff",
+    summary: `Released${actor === claimedBy ? "" : ` ${claimedBy}'s claim`}: ${reason}`,
+  });
 
-  if (params?.work_log_entry) {
-    updatedFrontmatter.work_log = appendWorkLog(
-      updatedFrontmatter.work_log,
-      params.work_log_entry,
-    );
-  }
+  const forbidden = checkTransition(
+    project,
+    fromStatus,
+    toStatus,
+    updatedFrontmatter,
+    record.body,
+    actor,
+  );
+  if (forbidden) return forbidden;
 
-  const destination = resolvePathForStatus(filePath, targetStatus);
+  const destination = resolvePathForStatus(project, filePath, toStatus);
   if (!destination) {
     return { error: "Unable to resolve destination path" };
   }
 
-  const issues = validateTicket(updatedFrontmatter, record.body, destination);
-  if (strictMode && issues.length > 0) {
+  const issues = validateTicket(project, updatedFrontmatter, record.body, destination);
+  if (project.strict && issues.length > 0) {
     return { error: "Validation failed", issues };
   }
+  const revision = writeTicketTo(project, filePath, destination, updatedFrontmatter, record.body);
+  changes.push({
+    action: "release",
+    id: String(updatedFrontmatter.id ?? ""),
+    from_path: filePath,
+    to_path: destination,
+    from_status: fromStatus,
+    to_status: toStatus,
+    actor,
+    before: record.raw,
+    after: project.store.read(destination),
+  });
 
-  ensureDir(path.dirname(destination));
-  writeTicket(destination, updatedFrontmatter, record.body);
-
-  if (destination !== filePath) {
-    fs.unlinkSync(filePath);
-  }
-  regenerateIndex().catch(() => { });
-
-  return { ok: true, path: destination, issues };
+  return { ok: true, path: destination, revision, released: claimedBy, issues };
 }
 
-async function validateTickets(params: any) {
-  const filePath = resolveTicketPath(params);
-  if (filePath) {
-    const record = readTicket(filePath);
-    if (!record) {
-      return { error: "Failed to read ticket" };
-    }
-    const issues = validateTicket(record.frontmatter, record.body, filePath);
-    if (record.parseError) {
-      issues.push(record.parseError);
-    }
-    return { path: filePath, issues };
-  }
-
-  const files = await listTicketFiles();
-  const results = files
-    .map((candidate) => {
-      const record = readTicket(candidate);
-      if (!record) {
-        return { path: candidate, issues: ["Failed to read ticket"] };
-      }
-      const issues = validateTicket(record.frontmatter, record.body, candidate);
-      if (record.parseError) {
-        issues.push(record.parseError);
-      }
-      return { path: candidate, issues };
-    })
-    .filter((entry) => entry.issues.length > 0);
-
-  return { issues: results };
+async function reassignTicket(project: Project, params: any) {
+  return await mutateTickets(project, "tickets.reassign", (changes) =>
+    withTicketLockFor(project, params, () => applyTicketReassign(project, params, changes)),
+  );
 }
 
-async function ticketStats() {
-  const files = await listTicketFiles();
-  const summaries = files
-    .map((filePath) => readTicketSummary(filePath))
-    .filter((summary) => summary !== null) as TicketSummary[];
+function applyTicketReassign(project: Project, params: any, changes: TicketChange[]) {
+  const claimed = readClaimedTicket(project, params, "reassign");
+  if ("error" in claimed) return claimed;
+  const { filePath, actor, record } = claimed;
 
-  const counts = {
-    status: {} as Record<string, number>,
-    area: {} as Record<string, number>,
-    epic: {} as Record<string, number>,
-  };
+  const toActor = String(params?.to_actor ?? "").trim();
+  if (!toActor) {
+    return { error: "Missing to_actor" };
+  }
+  const denied = checkClaimRole(project, toActor);
+  if (denied) return denied;
 
-  for (const summary of summaries) {
-    increment(counts.status, summary.status || "unknown");
-    increment(counts.area, summary.area || "unknown");
-    increment(counts.epic, summary.epic || "unassigned");
+  const claimedBy = String(record.frontmatter.claimed_by);
+  const reason =
+    typeof params?.reason === "string" && params.reason.trim() ? `: ${params.reason.trim()}` : "";
+  const now = new Date().toISOString();
+  const updatedFrontmatter = { ...record.frontmatter };
+  updatedFrontmatter.claimed_by = toActor;
+  updatedFrontmatter.claimed_at = now;
+  updatedFrontmatter.updated_at = now;
+  if (typeof params?.lease_minutes === "number") {
+    updatedFrontmatter.lease_expires_at = leaseExpiry(params.lease_minutes);
   }
+  // The claim entry starts the new claimant's turn, so this handoff does not
+  // satisfy the handoff guard on their behalf.
+  updatedFrontmatter.work_log = appendWorkLog(
+    appendWorkLog(updatedFrontmatter.work_log, {
+      at: now,
+      actor,
+      kind: "handoff",
+      summary: `Reassigned from ${claimedBy} to ${toActor}${reason}`,
+    }),
+    { at: now, actor: toActor, kind: "claim", summary: `Took over from ${claimedBy}` },
+  );
 
-  const ticketNumbers = summaries
-    .map((summary) => extractTicketNumber(summary.id))
-    .filter((value): value is number => value !== null);
-  const highestTicketNumber =
-    ticketNumbers.length > 0 ? Math.max(...ticketNumbers) : 0;
+  const issues = validateTicket(project, updatedFrontmatter, record.body, filePath);
+  if (project.strict && issues.length > 0) {
+    return { error: "Validation failed", issues };
+  }
+  const revision = writeTicket(project, filePath, updatedFrontmatter, record.body);
+  changes.push({
+    action: "reassign",
+    id: String(updatedFrontmatter.id ?? ""),
+    from_path: null,
+    to_path: filePath,
+    from_status: null,
+    to_status: null,
+    actor,
+    before: record.raw,
+    after: project.store.read(filePath),
+  });
 
-  return {
-    ...counts,
-    highest_ticket_number: highestTicketNumber,
-    next_ticket_number: highestTicketNumber + 1,
-  };
+  return { ok: true, path: filePath, revision, claimed_by: toActor, previous: claimedBy, issues };
 }
 
-async function nextTicketId(params: any) {
-  const files = await listTicketFiles();
-  const summaries = files
-    .map((filePath) => readTicketSummary(filePath))
-    .filter((summary) => summary !== null) as TicketSummary[];
-
-  const ticketNumbers = summaries
-    .map((summary) => extractTicketNumber(summary.id))
-    .filter((value): value is number => value !== null);
-  const highestTicketNumber =
-    ticketNumbers.length > 0 ? Math.max(...ticketNumbers) : 0;
-  const nextTicketNumber = highestTicketNumber + 1;
-
-  const prefix = typeof params?.prefix === "string" ? params.prefix : "T";
-  const separator = typeof params?.separator === "string" ? params.separator : "-";
-  const padding =
-    typeof params?.padding === "number" && Number.isFinite(params.padding)
-      ? Math.max(0, Math.floor(params.padding))
-      : 3;
-
-  const numericPart =
-    padding > 0 ? String(nextTicketNumber).padStart(padding, "0") : String(nextTicketNumber);
-  const suggestedId = prefix ? `${prefix}${separator}${numericPart}` : numericPart;
+// ---------------------------------------------------------------------------
+// Handoff to human testing
+// ---------------------------------------------------------------------------
 
-  return {
-    highest_ticket_number: highestTicketNumber,
-    next_ticket_number: nextTicketNumber,
-    suggested_id: suggestedId,
-  };
+async function handoffTicket(project: Project, params: any) {
+  return await mutateTickets(project, "tickets.handoff", (changes) =>
+    withTicketLockFor(project, params, () => applyTicketHandoff(project, params, changes)),
+  );
 }
 
-async function claimTicket(params: any) {
-  const filePath = resolveTicketPath(params);
+function applyTicketHandoff(project: Project, params: any, changes: TicketChange[]) {
+  const filePath = resolveTicketPath(project, params);
   if (!filePath) {
     return { error: "Ticket not found" };
   }
-
   const actor = String(params?.actor ?? "").trim();
   if (!actor) {
     return { error: "Missing actor" };
   }
+  const summary = String(params?.summary ?? "").trim();
+  if (!summary) {
+    return { error: "Missing summary" };
+  }
 
-  const record = readTicket(filePath);
+  const record = readTicket(project, filePath);
   if (!record) {
     return { error: "Failed to read ticket" };
   }
@@ -735,56 +3072,163 @@ async function claimTicket(params: any) {
     return { error: "Ticket frontmatter parse error", issues: [record.parseError] };
   }
 
-  if (record.frontmatter.status !== "pending") {
-    return {
-      error: `Ticket must be pending to claim (current status: ${String(record.frontmatter.status ?? "unknown")})`,
-    };
+  const conflict = checkExpectedRevision(record, params);
+  if (conflict) return conflict;
+
+  const unsupported = checkHandoffConfig(project);
+  if (unsupported) return unsupported;
+  const { to, notes_section: notesSection, testing_section: testingSection } =
+    project.config.handoff;
+
+  const notClaimant = claimantError(record.frontmatter, actor);
+  if (notClaimant && params?.force !== true) {
+    return { error: `${notClaimant}; pass force: true to hand off anyway` };
   }
+  const testingSteps = normalizeStringList(record.frontmatter.human_testing_steps);
+  if (testingSteps.length === 0) {
+    return { error: "human_testing_steps is empty; add the steps with tickets.update before handing off" };
+  }
+
+  const touchedFiles = normalizeStringList(params?.touched_files);
+  const commands = normalizeStringList(params?.commands);
+  const testingNotes = normalizeStringList(params?.testing_notes);
+  const details = Object.fromEntries(
+    Object.entries({ touched_files: touchedFiles, commands, notes: testingNotes }).filter(
+      ([, list]) => list.length > 0,
+    ),
+  );
 
+  const fromStatus = String(record.frontmatter.status ?? "");
   const now = new Date().toISOString();
   const updatedFrontmatter = { ...record.frontmatter };
-  updatedFrontmatter.status = "in_progress";
-  updatedFrontmatter.claimed_by = actor;
-  updatedFrontmatter.claimed_at = now;
+  updatedFrontmatter.status = to;
   updatedFrontmatter.updated_at = now;
+  endLeaseOutsideClaim(project, updatedFrontmatter);
   updatedFrontmatter.work_log = appendWorkLog(updatedFrontmatter.work_log, {
     at: now,
     actor,
-    kind: "claim",
-    summary:
-      typeof params?.summary === "string" && params.summary.trim().length > 0
-        ? params.summary.trim()
-        : "Claimed ticket for implementation",
-    details: params?.details,
+    kind: "handoff",
+    summary,
+    ...(Object.keys(details).length > 0 ? { details } : {}),
   });
 
-  const destination = resolvePathForStatus(filePath, "in_progress");
+  const notes = [
+    summary,
+    typeof params?.notes === "string" ? params.notes.trim() : "",
+    markdownList("Touched files:", touchedFiles.map((file) => `\`${file}\``)),
+    markdownList("Commands run:", commands.map((command) => `\`${command}\``)),
+    markdownList("Testing notes:", testingNotes),
+  ].filter(Boolean);
+  let body = appendToSection(record.body, notesSection, notes.join("\n\n"));
+  if (!sectionContent(body, testingSection)) {
+    body = appendToSection(
+      body,
+      testingSection,
+      testingSteps.map((step, index) => `${index + 1}. ${step}`).join("\n"),
+    );
+  }
+
+  // The guards (handoff entry, implementation notes) see the ticket as written.
+  const forbidden = checkTransition(
+    project,
+    fromStatus,
+    to,
+    updatedFrontmatter,
+    body,
+    actor,
+  );
+  if (forbidden) return forbidden;
+
+  const destination = resolvePathForStatus(project, filePath, to);
   if (!destination) {
     return { error: "Unable to resolve destination path" };
   }
 
-  const issues = validateTicket(updatedFrontmatter, record.body, destination);
-  if (strictMode && issues.length > 0) {
+  const issues = [
+    ...validateTicket(project, updatedFrontmatter, body, destination),
+    ...dependencyWriteIssues(project, updatedFrontmatter),
+  ];
+  if (project.strict && issues.length > 0) {
     return { error: "Validation failed", issues };
   }
+  const revision = writeTicketTo(project, filePath, destination, updatedFrontmatter, body);
+  changes.push({
+    action: "handoff",
+    id: String(updatedFrontmatter.id ?? ""),
+    from_path: filePath,
+    to_path: destination,
+    from_status: fromStatus,
+    to_status: to,
+    actor,
+    before: record.raw,
+    after: project.store.read(destination),
+  });
+
+  return { ok: true, path: destination, revision, issues };
+}
+
+/** The error handoff returns when the config lacks its status or sections. */
+function checkHandoffConfig(project: Project) {
+  const { to, notes_section: notesSection, testing_section: testingSection } =
+    project.config.handoff;
+  if (!statusNames(project.config).includes(to)) {
+    return {
+      error: `Handoff status ${to} is not a configured status; set handoff.to in tickets/${TICKET_CONFIG_FILE}`,
+    };
+  }
+  const missing = [notesSection, testingSection].filter(
+    (section) => !project.config.required_sections.includes(section),
+  );
+  if (missing.length > 0) {
+    return {
+      error: `Handoff sections are not in required_sections: ${missing.join(", ")}; set handoff.notes_section and handoff.testing_section in tickets/${TICKET_CONFIG_FILE}`,
+    };
+  }
+  return null;
+}
+
+function markdownList(title: string, items: string[]): string {
+  return items.length > 0 ? [title, ...items.map((item) => `- ${item}`)].join("\n") : "";
+}
 
-  ensureDir(path.dirname(destination));
-  writeTicket(destination, updatedFrontmatter, record.body);
-  if (destination !== filePath) {
-    fs.unlinkSync(filePath);
+/**
+ * Adds `content` at the end of the `heading` section, after anything already
+ * there; a missing section is added at the end of the body.
+ */
+function appendToSection(body: string, heading: string, content: string): string {
+  const lines = body.replace(/\s+$/, "").split("\n");
+  const start = lines.findIndex((line) => line.trim() === heading);
+  if (start === -1) {
+    return `${lines.join("\n")}\n\n${heading}\n\n${content}\n`;
   }
-  regenerateIndex().catch(() => { });
 
-  return { ok: true, path: destination, issues };
+  const level = heading.match(/^#+/)?.[0].length ?? 2;
+  let end = start + 1;
+  while (end < lines.length) {
+    const match = lines[end].match(/^(#+)\s/);
+    if (match && match[1].length <= level) break;
+    end++;
+  }
+
+  const existing = lines.slice(start + 1, end).join("\n").trim();
+  const section = [heading, "", existing ? `${existing}\n\n${content}` : content];
+  const rest = lines.slice(end);
+  return [...lines.slice(0, start), ...section, ...(rest.length > 0 ? ["", ...rest] : [])].join("\n") + "\n";
+}
+
+async function appendTicketWorklog(project: Project, params: any) {
+  return await mutateTickets(project, "tickets.append_worklog", (changes) =>
+    withTicketLockFor(project, params, () => applyWorklogAppend(project, params, changes)),
+  );
 }
 
-async function appendTicketWorklog(params: any) {
-  const filePath = resolveTicketPath(params);
+function applyWorklogAppend(project: Project, params: any, changes: TicketChange[]) {
+  const filePath = resolveTicketPath(project, params);
   if (!filePath) {
     return { error: "Ticket not found" };
   }
 
-  const record = readTicket(filePath);
+  const record = readTicket(project, filePath);
   if (!record) {
     return { error: "Failed to read ticket" };
   }
@@ -792,46 +3236,66 @@ async function appendTicketWorklog(params: any) {
     return { error: "Ticket frontmatter parse error", issues: [record.parseError] };
   }
 
+  const conflict = checkExpectedRevision(record, params);
+  if (conflict) return conflict;
+
   const rawEntry = params?.entry;
   if (!rawEntry || typeof rawEntry !== "object") {
     return { error: "entry must be an object" };
   }
 
-  const entry: WorkLogEntry = {
-    ...rawEntry,
-    at:
-      typeof rawEntry.at === "string" && rawEntry.at.trim().length > 0
-        ? rawEntry.at
-        : new Date().toISOString(),
-  };
+  const entry = withTimestamp(rawEntry);
 
   const updatedFrontmatter = { ...record.frontmatter };
   updatedFrontmatter.updated_at = new Date().toISOString();
   updatedFrontmatter.work_log = appendWorkLog(updatedFrontmatter.work_log, entry);
 
-  const issues = validateTicket(updatedFrontmatter, record.body, filePath);
-  if (strictMode && issues.length > 0) {
+  const issues = validateTicket(project, updatedFrontmatter, record.body, filePath);
+  if (project.strict && issues.length > 0) {
     return { error: "Validation failed", issues };
   }
 
-  writeTicket(filePath, updatedFrontmatter, record.body);
-  regenerateIndex().catch(() => { });
-  return { ok: true, path: filePath, issues };
+  const revision = writeTicket(project, filePath, updatedFrontmatter, record.body);
+  changes.push({
+    action: "worklog",
+    id: String(updatedFrontmatter.id ?? ""),
+    from_path: null,
+    to_path: filePath,
+    from_status: null,
+    to_status: null,
+    actor: entry.actor ?? null,
+    before: record.raw,
+    after: project.store.read(filePath),
+  });
+  return { ok: true, path: filePath, revision, issues };
 }
 
-async function reconcileTickets(params: any) {
-  const applyFixes = params?.apply_fixes === true;
-  const explicitPath = resolveTicketPath(params);
-  const targets = explicitPath ? [explicitPath] : await listTicketFiles();
+async function reconcileTickets(project: Project, params: any) {
+  return await mutateTickets(project, "tickets.reconcile", (changes) =>
+    reconcileTicketFiles(project, params, changes));
+}
 
-  const reports = targets.map((targetPath) => reconcileTicketAtPath(targetPath, applyFixes));
+async function reconcileTicketFiles(project: Project, params: any, changes: TicketChange[]) {
+  const applyFixes = params?.apply_fixes === true;
+  const explicitPath = resolveTicketPath(project, params);
+  const targets = explicitPath ? [explicitPath] : await listTicketFiles(project);
+
+  const reports = [];
+  for (const targetPath of targets) {
+    const report = await withTicketLock(project, targetPath, () => {
+      if (explicitPath && applyFixes) {
+        const record = readTicket(project, targetPath);
+        const conflict = record ? checkExpectedRevision(record, params) : null;
+        if (conflict) return conflict;
+      }
+      return reconcileTicketAtPath(project, targetPath, applyFixes, changes);
+    });
+    if ("conflict" in report) return report;
+    reports.push(report);
+  }
   const changed = reports.filter((report) => report.changed).length;
   const unresolved = reports.filter((report) => report.unresolved_issues.length > 0).length;
 
-  if (applyFixes && changed > 0) {
-    regenerateIndex().catch(() => { });
-  }
-
   return {
     apply_fixes: applyFixes,
     scanned: reports.length,
@@ -841,37 +3305,71 @@ async function reconcileTickets(params: any) {
   };
 }
 
-async function createTicket(params: any) {
+async function createTicket(project: Project, params: any) {
+  // The global lock makes the "id is free" check and the write one step.
+  return await mutateTickets(project, "tickets.create", (changes) =>
+    withGlobalLock(project, () => applyTicketCreate(project, params, changes)),
+  );
+}
+
+async function applyTicketCreate(project: Project, params: any, changes: TicketChange[]) {
   const id = String(params?.id ?? "").trim();
   if (!id) return { error: "Missing id" };
-  if (findTicketById(id)) return { error: `Ticket id already exists: ${id}` };
+  if (findTicketById(project, id)) return { error: `Ticket id already exists: ${id}` };
 
-  const title = String(params?.title ?? "").trim();
-  const area = String(params?.area ?? "").trim();
-  const epic = String(params?.epic ?? "").trim() || "none";
-  const intent = String(params?.intent ?? "").trim();
+  const actor = resolveActor(params);
+  if (actor && typeof actor === "object") return actor;
+  const given = Object.keys(params ?? {}).filter((field) => params[field] !== undefined);
+  const denied = checkFieldRoles(project, actor, given);
+  if (denied) return denied;
 
-  const requirements = normalizeStringList(params?.requirements);
-  const humanTesting = normalizeStringList(params?.human_testing_steps);
-  const constraints = normalizeStringList(params?.constraints);
-  const keyFiles = normalizeStringList(params?.key_files);
-  const dependsOn = normalizeStringList(params?.depends_on ?? []);
+  // Values the caller leaves out come from the config's defaults.
+  const { defaults } = project.config;
+  const input = (field: string) => params?.[field] ?? defaults[field];
 
-  if (!title || !area || !intent) {
+  const title = String(params?.title ?? "").trim();
+  const area = String(input("area") ?? "").trim();
+  const epic = String(input("epic") ?? "").trim() || "none";
+  const intent = String(input("intent") ?? "").trim();
+
+  const requirements = normalizeStringList(input("requirements"));
+  const humanTesting = normalizeStringList(input("human_testing_steps"));
+  const constraints = normalizeStringList(input("constraints"));
+  const keyFiles = normalizeStringList(input("key_files"));
+  const dependsOn = normalizeStringList(input("depends_on") ?? []);
+
+  const required = new Set(project.config.required_fields);
+  if (!title || (required.has("area") && !area) || (required.has("intent") && !intent)) {
     return { error: "Missing required fields" };
   }
-  if (!requirements.length || !humanTesting.length || !constraints.length) {
-    return { error: "requirements, human_testing_steps, constraints must be non-empty" };
-  }
-  if (!keyFiles.length) {
-    return { error: "key_files must be non-empty" };
+  const emptyLists = Object.entries({
+    requirements,
+    human_testing_steps: humanTesting,
+    constraints,
+    key_files: keyFiles,
+  })
+    .filter(([field, list]) => required.has(field) && list.length === 0)
+    .map(([field]) => field);
+  if (emptyLists.length > 0) {
+    return { error: `${emptyLists.join(", ")} must be non-empty` };
   }
 
   const now = new Date().toISOString();
   const createdAt = String(params?.created_at ?? now);
-  const status = (params?.status as TicketStatus) ?? "pending";
+  const status = String(input("status"));
+  // Starting anywhere but the initial status takes the role a move there would.
+  const initialStatus = String(defaults.status ?? "pending");
+  const statusDenied = checkRole(
+    project,
+    actor,
+    transitionRoles(project.config, initialStatus, status),
+    `create tickets in ${status}`,
+  );
+  if (statusDenied) return statusDenied;
 
   const frontmatter: Record<string, any> = {
+    // Extra defaults (e.g. team-specific fields) are written as given.
+    ...defaults,
     id,
     title,
     status,
@@ -887,37 +3385,55 @@ async function createTicket(params: any) {
     depends_on: dependsOn,
     claimed_by: null,
     claimed_at: null,
-    work_log: [],
+    work_log: actor
+      ? [{ at: now, actor, kind: "note", summary: `Created in ${status}` }]
+      : [],
     review_notes: null,
   };
+  for (const field of project.config.fields) {
+    if (params?.[field.name] !== undefined) frontmatter[field.name] = params[field.name];
+  }
 
   const body =
     typeof params?.body === "string" && params.body.trim().length > 0
       ? params.body
-      : defaultBody(title);
+      : defaultBody(project, title);
 
   const filename =
     typeof params?.filename === "string" && params.filename.trim().length > 0
       ? params.filename.trim()
       : defaultFilename(createdAt, id, title);
 
-  const targetFolder = STATUS_TO_FOLDER[status];
-  if (!targetFolder) return { error: formatInvalidStatus(status) };
+  const targetFolder = statusFolder(project.config, status);
+  if (!targetFolder) return { error: formatInvalidStatus(project, status) };
 
-  const filePath = path.join(ticketsRoot, targetFolder, filename);
-  if (fs.existsSync(filePath)) {
+  const filePath = path.join(project.ticketsRoot, targetFolder, filename);
+  if (project.store.exists(filePath)) {
     return { error: `Ticket file already exists: ${filePath}` };
   }
 
-  const issues = validateTicket(frontmatter, body, filePath);
-  if (strictMode && issues.length > 0) {
+  const issues = [
+    ...validateTicket(project, frontmatter, body, filePath),
+    ...dependencyWriteIssues(project, frontmatter),
+  ];
+  if (project.strict && issues.length > 0) {
     return { error: "Validation failed", issues };
   }
-
-  ensureDir(path.dirname(filePath));
-  writeTicket(filePath, frontmatter, body);
-  regenerateIndex().catch(() => { });
-  return { ok: true, path: filePath };
+  const revision = await withTicketLock(project, filePath, () =>
+    writeTicket(project, filePath, frontmatter, body),
+  );
+  changes.push({
+    action: "create",
+    id,
+    from_path: null,
+    to_path: filePath,
+    from_status: null,
+    to_status: status,
+    actor,
+    before: null,
+    after: project.store.read(filePath),
+  });
+  return { ok: true, path: filePath, revision };
 }
 
 function increment(target: Record<string, number>, key: string) {
@@ -932,8 +3448,13 @@ function extractTicketNumber(ticketId: string): number | null {
   return Number.isNaN(value) ? null : value;
 }
 
-function reconcileTicketAtPath(filePath: string, applyFixes: boolean) {
-  const record = readTicket(filePath);
+function reconcileTicketAtPath(
+  project: Project,
+  filePath: string,
+  applyFixes: boolean,
+  changes: TicketChange[] = [],
+) {
+  const record = readTicket(project, filePath);
   if (!record) {
     return {
       path: filePath,
@@ -945,7 +3466,7 @@ function reconcileTicketAtPath(filePath: string, applyFixes: boolean) {
     };
   }
 
-  const beforeIssues = validateTicket(record.frontmatter, record.body, filePath);
+  const beforeIssues = validateTicket(project, record.frontmatter, record.body, filePath);
   if (record.parseError) {
     beforeIssues.push(record.parseError);
   }
@@ -1007,8 +3528,8 @@ function reconcileTicketAtPath(filePath: string, applyFixes: boolean) {
     changed = true;
   }
 
-  if (!TicketStatusValues.includes(frontmatter.status)) {
-    const inferredStatus = inferStatusFromPath(filePath);
+  if (!statusNames(project.config).includes(frontmatter.status)) {
+    const inferredStatus = inferStatusFromPath(project, filePath);
     if (inferredStatus) {
       frontmatter.status = inferredStatus;
       fixesApplied.push(`Set invalid or missing status to ${inferredStatus}`);
@@ -1017,28 +3538,37 @@ function reconcileTicketAtPath(filePath: string, applyFixes: boolean) {
   }
 
   let destinationPath = filePath;
-  if (TicketStatusValues.includes(frontmatter.status)) {
-    const resolved = resolvePathForStatus(filePath, frontmatter.status as TicketStatus);
+  if (statusNames(project.config).includes(frontmatter.status)) {
+    const resolved = resolvePathForStatus(project, filePath, frontmatter.status);
     if (resolved && resolved !== filePath) {
       destinationPath = resolved;
-      fixesApplied.push(`Moved ticket to ${getStatusFolder(resolved)} folder`);
+      fixesApplied.push(`Moved ticket to ${getStatusFolder(project, resolved)} folder`);
       changed = true;
     }
   }
 
+  let revision = record.revision;
   if (changed) {
     frontmatter.updated_at = now;
-    ensureDir(path.dirname(destinationPath));
-    writeTicket(destinationPath, frontmatter, record.body);
-    if (destinationPath !== filePath && fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
-    }
+    revision = writeTicketTo(project, filePath, destinationPath, frontmatter, record.body);
+    changes.push({
+      action: "reconcile",
+      id: String(frontmatter.id ?? ""),
+      from_path: destinationPath === filePath ? null : filePath,
+      to_path: destinationPath,
+      from_status: inferStatusFromPath(project, filePath),
+      to_status: String(frontmatter.status ?? ""),
+      actor: null,
+      before: record.raw,
+      after: project.store.read(destinationPath),
+    });
   }
 
-  const afterIssues = validateTicket(frontmatter, record.body, destinationPath);
+  const afterIssues = validateTicket(project, frontmatter, record.body, destinationPath);
 
   return {
     path: destinationPath,
+    revision,
     changed,
     fixes_applied: fixesApplied,
     before_issues: beforeIssues,
@@ -1047,25 +3577,41 @@ function reconcileTicketAtPath(filePath: string, applyFixes: boolean) {
   };
 }
 
-function inferStatusFromPath(filePath: string): TicketStatus | null {
-  const folder = getStatusFolder(filePath);
+/** The folder's primary status (the first one the config lists for it). */
+function inferStatusFromPath(project: Project, filePath: string): string | null {
+  const folder = getStatusFolder(project, filePath);
   if (!folder) return null;
+  return folderStatuses(project.config, folder)[0] ?? null;
+}
 
-  if (folder === "in_progress") {
-    return "in_progress";
-  }
+/** Built-in frontmatter fields tickets.list can sort on besides the custom ones. */
+const SORTABLE_BUILTINS = ["id", "title", "status", "area", "epic", "created_at", "updated_at"];
 
-  const statuses = FOLDER_TO_STATUS[folder];
-  if (!statuses || statuses.length === 0) return null;
-  return statuses[0];
-}
+type FieldFilter = { values: unknown[] | null; min: unknown; max: unknown };
 
 function normalizeFilters(filters: any) {
+  const fields: Record<string, FieldFilter> = {};
+  for (const [field, value] of Object.entries(filters?.fields ?? {})) {
+    const range = value && typeof value === "object" && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null;
+    fields[field] = range
+      ? { values: null, min: range.min, max: range.max }
+      : { values: Array.isArray(value) ? value : [value], min: undefined, max: undefined };
+  }
+
   return {
     status: normalizeFilter(filters?.status),
     area: normalizeFilter(filters?.area),
     epic: normalizeFilter(filters?.epic ?? filters?.feature),
     text: typeof filters?.text === "string" ? filters.text.toLowerCase() : null,
+    stale: typeof filters?.stale === "boolean" ? filters.stale : null,
+    fields,
+    sort: normalizeStringList(filters?.sort).map((key) =>
+      key.startsWith("-")
+        ? { field: key.slice(1), direction: -1 }
+        : { field: key, direction: 1 },
+    ),
   };
 }
 
@@ -1081,10 +3627,18 @@ function normalizeStringList(value: any): string[] {
   return [String(value)].filter(Boolean);
 }
 
-function ticketMatchesFilters(summary: TicketSummary, filters: any): boolean {
+function ticketMatchesFilters(
+  project: Project,
+  summary: TicketSummary,
+  filters: ReturnType<typeof normalizeFilters>,
+): boolean {
+  for (const [name, filter] of Object.entries(filters.fields)) {
+    if (!fieldMatches(project, name, summaryValue(summary, name), filter)) return false;
+  }
   if (filters.status && !filters.status.includes(summary.status)) return false;
   if (filters.area && !filters.area.includes(summary.area)) return false;
   if (filters.epic && !filters.epic.includes(summary.epic)) return false;
+  if (filters.stale !== null && isStale(project, summary, Date.now()) !== filters.stale) return false;
   if (filters.text) {
     const haystack = `${summary.id} ${summary.title} ${summary.intent ?? ""}`.toLowerCase();
     if (!haystack.includes(filters.text)) return false;
@@ -1092,40 +3646,86 @@ function ticketMatchesFilters(summary: TicketSummary, filters: any): boolean {
   return true;
 }
 
-function resolveTicketPath(params: any): string | null {
+/**
+ * A list of values matches any of them (for string lists: any shared item);
+ * {min, max} is an inclusive range.
+ */
+function fieldMatches(
+  project: Project,
+  name: string,
+  value: unknown,
+  filter: FieldFilter,
+): boolean {
+  if (filter.values) {
+    const candidates = Array.isArray(value) ? value : [value];
+    return candidates.some((candidate) => filter.values!.includes(candidate));
+  }
+  if (value === null || value === undefined) return false;
+  const field = customField(project.config, name);
+  if (filter.min !== undefined && compareFieldValues(field, value, filter.min) < 0) return false;
+  if (filter.max !== undefined && compareFieldValues(field, value, filter.max) > 0) return false;
+  return true;
+}
+
+function summaryValue(summary: TicketSummary, name: string): unknown {
+  return SORTABLE_BUILTINS.includes(name)
+    ? (summary as Record<string, any>)[name]
+    : summary.fields?.[name];
+}
+
+/** Unset values sort last whatever the direction. */
+function compareSummaries(
+  project: Project,
+  a: TicketSummary,
+  b: TicketSummary,
+  keys: { field: string; direction: number }[],
+): number {
+  for (const { field: name, direction } of keys) {
+    const left = summaryValue(a, name);
+    const right = summaryValue(b, name);
+    const unsetLeft = left === null || left === undefined || left === "";
+    const unsetRight = right === null || right === undefined || right === "";
+    if (unsetLeft || unsetRight) {
+      if (unsetLeft !== unsetRight) return unsetLeft ? 1 : -1;
+      continue;
+    }
+    const order = compareFieldValues(customField(project.config, name), left, right);
+    if (order !== 0) return order * direction;
+  }
+  return 0;
+}
+
+function resolveTicketPath(project: Project, params: any): string | null {
   if (params?.path) {
     const absolute = path.isAbsolute(params.path)
       ? params.path
-      : path.join(repoRoot, params.path);
-    return fs.existsSync(absolute) ? absolute : null;
+      : path.join(project.repoRoot, params.path);
+    return project.store.exists(absolute) ? absolute : null;
   }
 
   if (params?.id) {
-    const candidate = findTicketById(String(params.id));
+    const candidate = findTicketById(project, String(params.id));
     return candidate;
   }
 
   return null;
 }
 
-function listTicketFiles(): Promise<string[]> {
-  const patterns = [
-    "tickets/pending/**/*.md",
-    "tickets/in_progress/**/*.md",
-    "tickets/awaiting_human_test/**/*.md",
-    "tickets/done/**/*.md",
-    "tickets/archive/**/*.md",
-  ];
+async function listTicketFiles(project: Project): Promise<string[]> {
+  return scanTickets(project).map((entry) => entry.record.path);
+}
 
-  return fg(patterns, { cwd: repoRoot, absolute: true });
+function listTicketSummaries(project: Project): TicketSummary[] {
+  return scanTickets(project).map((entry) => entry.summary);
 }
 
-function readTicketSummary(filePath: string): TicketSummary | null {
-  const record = readTicket(filePath);
-  if (!record) return null;
+function readTicket(project: Project, filePath: string): TicketRecord | null {
+  return loadTicket(project, filePath)?.record ?? null;
+}
 
+function summarizeTicket(project: Project, record: TicketRecord): TicketSummary {
   const frontmatter = normalizeFrontmatter(record.frontmatter);
-  const issues = validateTicket(frontmatter, record.body, filePath);
+  const issues = validateTicket(project, frontmatter, record.body, record.path);
   if (record.parseError) {
     issues.push(record.parseError);
   }
@@ -1136,25 +3736,149 @@ function readTicketSummary(filePath: string): TicketSummary | null {
     status: frontmatter.status ?? "",
     area: String(frontmatter.area ?? ""),
     epic: String(frontmatter.epic ?? ""),
-    path: filePath,
+    path: record.path,
+    revision: record.revision,
     created_at: frontmatter.created_at,
     updated_at: frontmatter.updated_at,
     intent: frontmatter.intent,
+    lease_expires_at: frontmatter.lease_expires_at ?? undefined,
+    fields: customFieldValues(project, frontmatter),
     issues: issues.length > 0 ? issues : undefined,
   };
 }
 
-function readTicket(filePath: string): TicketRecord | null {
-  if (!fs.existsSync(filePath)) return null;
+function customFieldValues(project: Project, frontmatter: Record<string, any>) {
+  const values: Record<string, unknown> = {};
+  for (const field of project.config.fields) {
+    const value = frontmatter[field.name];
+    if (value !== undefined && value !== null) values[field.name] = value;
+  }
+  return Object.keys(values).length > 0 ? values : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Ticket cache: parsed tickets keyed by path, refreshed by stat checks
+// ---------------------------------------------------------------------------
+
+type CachedTicket = {
+  version: string;
+  record: TicketRecord;
+  summary: TicketSummary;
+};
+
+type TicketCache = {
+  entries: Map<string, CachedTicket>;
+  idIndex: Map<string, string>;
+  /** Ticket paths from the last glob; only kept while a watcher can drop them. */
+  files: string[] | null;
+  watched: boolean;
+  metrics: {
+    hits: number;
+    misses: number;
+    scans: number;
+    globs: number;
+    id_hits: number;
+    id_misses: number;
+  };
+};
+
+function createTicketCache(): TicketCache {
+  return {
+    entries: new Map(),
+    idIndex: new Map(),
+    files: null,
+    watched: false,
+    metrics: { hits: 0, misses: 0, scans: 0, globs: 0, id_hits: 0, id_misses: 0 },
+  };
+}
+
+/**
+ * Returns the parsed ticket, re-reading the file only when the store reports
+ * a new version (for files: mtime, size or inode) since it was cached.
+ */
+function loadTicket(project: Project, filePath: string): CachedTicket | null {
+  const stamp = project.store.stat(filePath);
+  const cached = project.cache.entries.get(filePath);
+  if (stamp && cached && cached.version === stamp.version) {
+    project.cache.metrics.hits++;
+    return cached;
+  }
 
-  const raw = fs.readFileSync(filePath, "utf8");
+  const raw = stamp ? project.store.read(filePath) : null;
+  if (!stamp || raw === null) {
+    project.cache.entries.delete(filePath);
+    return null;
+  }
+  project.cache.metrics.misses++;
   const parsed = parseFrontmatter(raw);
-  return {
+  const record: TicketRecord = {
     path: filePath,
+    raw,
+    revision: contentRevision(raw),
     frontmatter: normalizeFrontmatter(parsed.frontmatter),
     body: parsed.body,
     parseError: parsed.error,
   };
+  const entry = {
+    version: stamp.version,
+    record,
+    summary: summarizeTicket(project, record),
+  };
+  project.cache.entries.set(filePath, entry);
+  return entry;
+}
+
+/**
+ * Ticket paths in status order. While a watcher runs, the last glob is reused
+ * until the watcher (or one of our own writes) reports a change.
+ */
+function ticketFiles(project: Project): string[] {
+  if (project.cache.files) return project.cache.files;
+  project.cache.metrics.globs++;
+  const files = project.store.listTicketFiles(ticketFolders(project.config));
+  if (project.cache.watched) project.cache.files = files;
+  return files;
+}
+
+/**
+ * Lists every ticket through the cache; only new or changed files are
+ * parsed. Also rebuilds the id -> path index.
+ */
+function scanTickets(project: Project): CachedTicket[] {
+  project.cache.metrics.scans++;
+  // Status order: the first match wins on duplicate ids.
+  let files = ticketFiles(project);
+  let loaded = files.map((filePath) => loadTicket(project, filePath));
+  // Another process moved or deleted a ticket and the watcher has not caught
+  // up yet: the new path would be missing too, so glob again.
+  if (project.cache.files && loaded.includes(null)) {
+    project.cache.files = null;
+    files = ticketFiles(project);
+    loaded = files.map((filePath) => loadTicket(project, filePath));
+  }
+
+  const present = new Set(files);
+  for (const cachedPath of project.cache.entries.keys()) {
+    if (!present.has(cachedPath)) {
+      project.cache.entries.delete(cachedPath);
+    }
+  }
+
+  const entries = loaded.filter((entry): entry is CachedTicket => entry !== null);
+
+  // First match wins, as with the folder order of the glob patterns.
+  const ids = new Map<string, string>();
+  for (const entry of entries) {
+    const id = entry.summary.id;
+    if (id && !ids.has(id)) ids.set(id, entry.record.path);
+  }
+  project.cache.idIndex = ids;
+
+  return entries;
+}
+
+function cacheReport(project: Project) {
+  return { entries: project.cache.entries.size, ...project.cache.metrics };
 }
 
 function parseFrontmatter(raw: string): {
@@ -1207,37 +3931,819 @@ function appendWorkLog(
   return list;
 }
 
+/**
+ * Rejects a mutation when the caller's expected_revision / expected_updated_at
+ * no longer match the file, returning the current state so it can retry.
+ */
+function checkExpectedRevision(record: TicketRecord, params: any) {
+  const expectedRevision = params?.expected_revision;
+  const expectedUpdatedAt = params?.expected_updated_at;
+  const revisionMismatch =
+    typeof expectedRevision === "string" && expectedRevision !== record.revision;
+  const updatedAtMismatch =
+    typeof expectedUpdatedAt === "string" &&
+    expectedUpdatedAt !== String(record.frontmatter.updated_at ?? "");
+  if (!revisionMismatch && !updatedAtMismatch) return null;
+
+  return {
+    error: "Revision conflict: ticket changed since it was read",
+    conflict: true,
+    current: {
+      path: record.path,
+      revision: record.revision,
+      frontmatter: record.frontmatter,
+      body: record.body,
+    },
+  };
+}
+
+async function withTicketLock<T>(
+  project: Project,
+  filePath: string,
+  fn: () => Promise<T> | T,
+): Promise<T> {
+  return await project.store.withLock(project.store.ticketLockKey(filePath), fn);
+}
+
+async function withGlobalLock<T>(project: Project, fn: () => Promise<T> | T): Promise<T> {
+  return await project.store.withLock(project.store.globalLockKey(), fn);
+}
+
+/** Takes several ticket locks in a fixed (sorted) order to avoid deadlocks. */
+async function withTicketLocks<T>(
+  project: Project,
+  filePaths: string[],
+  fn: () => Promise<T> | T,
+): Promise<T> {
+  const keys = [
+    ...new Set(filePaths.map((filePath) => project.store.ticketLockKey(filePath))),
+  ].sort();
+  const acquire = async (index: number): Promise<T> =>
+    index === keys.length
+      ? await fn()
+      : await project.store.withLock(keys[index], () => acquire(index + 1));
+  return await acquire(0);
+}
+
+/**
+ * Runs a mutation under the lock of the ticket named by params (id or path).
+ * The mutation re-resolves and re-reads the ticket itself, since it may have
+ * changed or moved while we waited for the lock.
+ */
+async function withTicketLockFor<T>(
+  project: Project,
+  params: any,
+  fn: () => Promise<T> | T,
+): Promise<T | { error: string }> {
+  const filePath = resolveTicketPath(project, params);
+  if (!filePath) {
+    return { error: "Ticket not found" };
+  }
+  return await withTicketLock(project, filePath, fn);
+}
+
+function withTimestamp(entry: WorkLogEntry): WorkLogEntry {
+  return {
+    ...entry,
+    at:
+      typeof entry.at === "string" && entry.at.trim().length > 0
+        ? entry.at
+        : new Date().toISOString(),
+  };
+}
+
 function writeTicket(
+  project: Project,
   filePath: string,
   frontmatter: Record<string, any>,
   body: string,
-) {
-  const ordered = orderFrontmatter(frontmatter);
+): string {
+  return writeTicketContent(project, filePath, renderTicket(project, frontmatter, body));
+}
+
+function writeTicketContent(project: Project, filePath: string, content: string): string {
+  assertTicketLockHeld(project, filePath);
+  if (!project.store.exists(filePath)) project.cache.files = null;
+  project.store.write(filePath, content);
+  return contentRevision(content);
+}
+
+function assertTicketLockHeld(project: Project, filePath: string) {
+  if (!project.store.isLockHeld(project.store.ticketLockKey(filePath))) {
+    throw new Error(`writeTicket called without holding a lock for ${filePath}`);
+  }
+}
+
+/**
+ * Writes the ticket at `destination` and removes `source` when they differ.
+ * The store makes the move crash-safe (see recoverOnStartup).
+ */
+function writeTicketTo(
+  project: Project,
+  source: string,
+  destination: string,
+  frontmatter: Record<string, any>,
+  body: string,
+): string {
+  const content = renderTicket(project, frontmatter, body);
+  return writeTicketContentTo(project, source, destination, content);
+}
+
+function writeTicketContentTo(
+  project: Project,
+  source: string,
+  destination: string,
+  content: string,
+): string {
+  if (source === destination) {
+    return writeTicketContent(project, destination, content);
+  }
+
+  assertTicketLockHeld(project, destination);
+  project.cache.files = null;
+  project.store.move(source, destination, content);
+  return contentRevision(content);
+}
+
+function renderTicket(project: Project, frontmatter: Record<string, any>, body: string): string {
+  const ordered = orderFrontmatter(project, frontmatter);
   const yaml = YAML.stringify(ordered).trimEnd();
-  const content = `---\n${yaml}\n---\n\n${body.trimStart()}`;
-  fs.writeFileSync(filePath, content, "utf8");
+  return `---\n${yaml}\n---\n\n${body.trimStart()}`;
 }
 
 // ---------------------------------------------------------------------------
-// INDEX.md auto-generation
+// Ticket history (git log --follow)
+// ---------------------------------------------------------------------------
+
+async function ticketHistory(project: Project, params: any) {
+  const filePath = resolveTicketPath(project, params);
+  if (!filePath) {
+    return { error: "Ticket not found" };
+  }
+
+  if (project.store.kind !== "markdown") {
+    return { error: "Ticket history needs the markdown store (tickets in a git repository)" };
+  }
+
+  let commits: FileCommit[];
+  try {
+    commits = await logFollow(project.repoRoot, filePath);
+  } catch (err) {
+    return {
+      error: "Ticket history requires the tickets to be in a git repository",
+      issues: [err instanceof GitError ? err.stderr.trim() : String(err)],
+    };
+  }
+
+  const id = loadTicket(project, filePath)?.summary.id || null;
+  if (typeof params?.at === "string") {
+    return await ticketAsOf(project, id, commits, params.at);
+  }
+
+  const limit = typeof params?.limit === "number" ? params.limit : commits.length;
+  const entries = [];
+  for (const commit of commits.slice(0, limit)) {
+    entries.push(await describeTicketCommit(project, commit));
+  }
+  return { id, path: filePath, total: commits.length, commits: entries };
+}
+
+async function describeTicketCommit(project: Project, commit: FileCommit) {
+  const after = await showFileAt(project.repoRoot, commit.sha, commit.path);
+  const before = commit.status.startsWith("A")
+    ? null
+    : await showFileAt(project.repoRoot, `${commit.sha}^`, commit.previous_path ?? commit.path);
+
+  const previous = before === null ? { frontmatter: {}, body: "" } : parseFrontmatter(before);
+  const current = after === null ? { frontmatter: {}, body: "" } : parseFrontmatter(after);
+
+  return {
+    commit: commit.sha,
+    author: commit.author,
+    date: commit.date,
+    subject: commit.subject,
+    path: commit.path,
+    renamed_from: commit.previous_path,
+    created: before === null,
+    frontmatter_changes: diffFrontmatter(previous.frontmatter, current.frontmatter),
+    body: summarizeBodyDiff(previous.body, current.body),
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The ticket as of `at`: the newest commit touching it that is `at` itself or
+ * an ancestor of it, or (for an ISO date) the newest commit on or before it.
+ */
+async function ticketAsOf(project: Project, id: string | null, commits: FileCommit[], at: string) {
+  let match: FileCommit | undefined;
+  if (/^\d{4}-\d{2}-\d{2}/.test(at) && isValidDate(at)) {
+    // A bare date means the end of that day (UTC), not its first instant.
+    const cutoff = /^\d{4}-\d{2}-\d{2}$/.test(at) ? Date.parse(at) + DAY_MS - 1 : Date.parse(at);
+    match = commits.find((commit) => Date.parse(commit.date) <= cutoff);
+  } else {
+    const sha = await resolveCommit(project.repoRoot, at);
+    if (!sha) return { error: `Unknown commit: ${at}` };
+    for (const commit of commits) {
+      if (commit.sha === sha || (await isAncestor(project.repoRoot, commit.sha, sha))) {
+        match = commit;
+        break;
+      }
+    }
+  }
+  if (!match) {
+    return { error: `Ticket has no committed version as of ${at}` };
+  }
+
+  const raw = await showFileAt(project.repoRoot, match.sha, match.path);
+  if (raw === null) {
+    return { error: `Ticket was deleted as of ${at}` };
+  }
+  const parsed = parseFrontmatter(raw);
+  return {
+    id,
+    at,
+    commit: match.sha,
+    date: match.date,
+    subject: match.subject,
+    path: match.path,
+    frontmatter: parsed.frontmatter,
+    body: parsed.body,
+    parse_error: parsed.error,
+  };
+}
+
+/**
+ * Fields whose value differs, as { before, after }. A work_log that only
+ * grew is reported as the appended entries instead of both full logs.
+ */
+function diffFrontmatter(before: Record<string, any>, after: Record<string, any>) {
+  const changes: Record<string, unknown> = {};
+  const fields = new Set([...Object.keys(after), ...Object.keys(before)]);
+  for (const field of fields) {
+    const previous = before[field];
+    const current = after[field];
+    if (JSON.stringify(previous) === JSON.stringify(current)) continue;
+
+    if (
+      field === "work_log" &&
+      Array.isArray(previous) &&
+      Array.isArray(current) &&
+      current.length > previous.length &&
+      JSON.stringify(current.slice(0, previous.length)) === JSON.stringify(previous)
+    ) {
+      changes[field] = { appended: current.slice(previous.length) };
+      continue;
+    }
+    changes[field] = { before: previous ?? null, after: current ?? null };
+  }
+  return changes;
+}
+
+function summarizeBodyDiff(before: string, after: string) {
+  const toLines = (text: string) => (text === "" ? [] : text.split("\n"));
+  const { added, removed } = countLineChanges(toLines(before), toLines(after));
+
+  const previousSections = splitSections(before);
+  const currentSections = splitSections(after);
+  const headings = new Set([...currentSections.keys(), ...previousSections.keys()]);
+  const sectionsChanged = [...headings].filter(
+    (heading) => previousSections.get(heading) !== currentSections.get(heading),
+  );
+
+  return { lines_added: added, lines_removed: removed, sections_changed: sectionsChanged };
+}
+
+/** Body text keyed by "## " heading; text before the first heading is "(preamble)". */
+function splitSections(body: string): Map<string, string> {
+  const sections = new Map<string, string>();
+  let heading = "(preamble)";
+  let lines: string[] = [];
+  const flush = () => {
+    const text = lines.join("\n").trim();
+    if (text || heading !== "(preamble)") sections.set(heading, text);
+  };
+  for (const line of body.split("\n")) {
+    const match = line.match(/^##\s+(.+?)\s*$/);
+    if (match) {
+      flush();
+      heading = match[1];
+      lines = [];
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+  return sections;
+}
+
+/** Added/removed line counts from a longest-common-subsequence line diff. */
+function countLineChanges(before: string[], after: string[]) {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  let previousRow = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const row = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = a[i - 1] === b[j - 1] ? previousRow[j - 1] + 1 : Math.max(previousRow[j], row[j - 1]);
+    }
+    previousRow = row;
+  }
+  const common = previousRow[b.length];
+  return { added: b.length - common, removed: a.length - common };
+}
+
+// ---------------------------------------------------------------------------
+// After-write steps: INDEX.md and git auto-commit
+// ---------------------------------------------------------------------------
+
+type TicketChange = {
+  action:
+    | "create"
+    | "update"
+    | "move"
+    | "claim"
+    | "heartbeat"
+    | "release"
+    | "reassign"
+    | "handoff"
+    | "worklog"
+    | "reconcile"
+    | "undo";
+  id: string;
+  /** Set when the ticket left this path (moves); null for in-place writes. */
+  from_path: string | null;
+  to_path: string;
+  from_status: string | null;
+  to_status: string | null;
+  actor: string | null;
+  /** File contents before and after the write; null if absent. */
+  before: string | null;
+  after: string | null;
+};
+
+/**
+ * Runs a mutation that records each ticket it wrote in `changes`, then
+ * journals the operation, regenerates INDEX.md and, when TICKET_GIT_COMMIT
+ * is on, commits the result. Successful results gain an `operation_id`.
+ */
+async function mutateTickets<T>(
+  project: Project,
+  tool: string,
+  fn: (changes: TicketChange[]) => Promise<T>,
+  undoOf: string | null = null,
+): Promise<T> {
+  const changes: TicketChange[] = [];
+  const result = await fn(changes);
+  if (changes.length === 0) {
+    return result;
+  }
+  const operationId = await afterTicketsChanged(project, tool, changes, undoOf);
+  return operationId ? { ...result, operation_id: operationId } : result;
+}
+
+async function afterTicketsChanged(
+  project: Project,
+  tool: string,
+  changes: TicketChange[],
+  undoOf: string | null,
+): Promise<string | null> {
+  try {
+    // Under the global lock so servers sharing the repo never interleave
+    // their journal appends, index writes or commits.
+    return await withGlobalLock(project, async () => {
+      const operationId = appendOperation(project, tool, changes, undoOf);
+      await writeIndex(project);
+      if (project.gitCommit && project.store.kind === "markdown") {
+        await commitTicketChanges(project, changes).catch((err) => {
+          process.stderr.write(`ticket-mcp: git commit failed: ${err?.message ?? err}\n`);
+        });
+      }
+      return operationId;
+    });
+  } catch (err: any) {
+    // The ticket itself is already written; a failed follow-up is not fatal.
+    process.stderr.write(`ticket-mcp: post-write step failed: ${err?.message ?? err}\n`);
+    return null;
+  }
+}
+
+async function commitTicketChanges(project: Project, changes: TicketChange[]) {
+  const paths = changes.flatMap((change) =>
+    change.from_path ? [change.from_path, change.to_path] : [change.to_path],
+  );
+  paths.push(path.join(project.ticketsRoot, "INDEX.md"));
+  await commitPaths(project.repoRoot, paths, formatCommitMessage(changes));
+}
+
+/** e.g. "tickets: T-042 pending→in_progress by worker-ai:x" */
+function formatCommitMessage(changes: TicketChange[]): string {
+  if (changes.length === 1) {
+    return `tickets: ${describeChange(changes[0])}`;
+  }
+  return [
+    `tickets: ${changes[0].action} ${changes.length} tickets`,
+    "",
+    ...changes.map((change) => `- ${describeChange(change)}`),
+  ].join("\n");
+}
+
+function describeChange(change: TicketChange): string {
+  const transition =
+    change.from_status && change.to_status && change.from_status !== change.to_status
+      ? `${change.from_status}→${change.to_status}`
+      : null;
+
+  let what: string;
+  switch (change.action) {
+    case "create":
+      what = `created in ${change.to_status}`;
+      break;
+    case "worklog":
+      what = "work log entry";
+      break;
+    case "heartbeat":
+      what = "lease renewed";
+      break;
+    case "release":
+      what = transition ? `released ${transition}` : "released";
+      break;
+    case "reassign":
+      what = "reassigned";
+      break;
+    case "reconcile":
+      what = transition ? `reconciled ${transition}` : "reconciled";
+      break;
+    case "undo":
+      what = change.after === null ? "removed (undo)" : `${transition ?? "restored"} (undo)`;
+      break;
+    default:
+      what = transition ?? "updated";
+  }
+
+  const subject = change.id || path.basename(change.to_path);
+  return `${subject} ${what}${change.actor ? ` by ${change.actor}` : ""}`;
+}
+
+// ---------------------------------------------------------------------------
+// Operation journal and undo
+// ---------------------------------------------------------------------------
+
+const OPERATION_JOURNAL_MAX_BYTES = 4 * 1024 * 1024;
+const DEFAULT_OPERATIONS_LIMIT = 20;
+
+type TicketSnapshot = { path: string; revision: string; raw: string };
+
+type OperationTicket = {
+  id: string;
+  action: TicketChange["action"];
+  from_status: string | null;
+  to_status: string | null;
+  before: TicketSnapshot | null;
+  after: TicketSnapshot | null;
+};
+
+type Operation = {
+  id: string;
+  at: string;
+  tool: string;
+  actor: string | null;
+  undo_of: string | null;
+  tickets: OperationTicket[];
+};
+
+function operationsJournalPath(project: Project): string {
+  return path.join(project.ticketsRoot, ".journal", "operations.jsonl");
+}
+
+/** Appends one operation to the journal; the caller holds the global lock. */
+function appendOperation(
+  project: Project,
+  tool: string,
+  changes: TicketChange[],
+  undoOf: string | null,
+): string {
+  const operation: Operation = {
+    id: `op-${Date.now().toString(36)}-${randomUUID().slice(0, 8)}`,
+    at: new Date().toISOString(),
+    tool,
+    actor: changes.find((change) => change.actor)?.actor ?? null,
+    undo_of: undoOf,
+    tickets: changes.map((change) => ({
+      id: change.id,
+      action: change.action,
+      from_status: change.from_status,
+      to_status: change.to_status,
+      before: ticketSnapshot(change.from_path ?? change.to_path, change.before),
+      after: ticketSnapshot(change.to_path, change.after),
+    })),
+  };
+
+  const journalPath = operationsJournalPath(project);
+  project.store.append(journalPath, `${JSON.stringify(operation)}\n`);
+  if ((project.store.stat(journalPath)?.size ?? 0) > OPERATION_JOURNAL_MAX_BYTES) {
+    trimOperations(project, journalPath);
+  }
+  return operation.id;
+}
+
+function ticketSnapshot(filePath: string, raw: string | null): TicketSnapshot | null {
+  return raw === null ? null : { path: filePath, revision: contentRevision(raw), raw };
+}
+
+/** Drops the oldest operations until the journal is back to half its cap. */
+function trimOperations(project: Project, journalPath: string) {
+  const lines = (project.store.read(journalPath) ?? "").split("\n").filter((line) => line.trim());
+  let size = lines.reduce((total, line) => total + Buffer.byteLength(line) + 1, 0);
+  while (lines.length > 1 && size > OPERATION_JOURNAL_MAX_BYTES / 2) {
+    size -= Buffer.byteLength(lines.shift()!) + 1;
+  }
+  project.store.write(journalPath, `${lines.join("\n")}\n`);
+}
+
+/** Journaled operations, oldest first. Unreadable lines are skipped. */
+function readOperations(project: Project): Operation[] {
+  const content = project.store.read(operationsJournalPath(project)) ?? "";
+  const operations: Operation[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      operations.push(JSON.parse(line) as Operation);
+    } catch {
+      // A torn final line from a crash mid-append.
+    }
+  }
+  return operations;
+}
+
+async function listOperations(project: Project, params: any) {
+  const operations = readOperations(project);
+  const undoneBy = new Map(
+    operations.filter((op) => op.undo_of).map((op) => [op.undo_of as string, op.id]),
+  );
+  const actor = typeof params?.actor === "string" ? params.actor : null;
+  const ticketId = typeof params?.id === "string" ? params.id : null;
+  const limit = typeof params?.limit === "number" ? params.limit : DEFAULT_OPERATIONS_LIMIT;
+
+  const matching = operations
+    .filter((op) => !actor || op.actor === actor)
+    .filter((op) => !ticketId || op.tickets.some((ticket) => ticket.id === ticketId))
+    .reverse()
+    .slice(0, limit);
+
+  return {
+    operations: matching.map((op) => ({
+      id: op.id,
+      at: op.at,
+      tool: op.tool,
+      actor: op.actor,
+      undo_of: op.undo_of,
+      undone_by: undoneBy.get(op.id) ?? null,
+      tickets: op.tickets.map((ticket) => ({
+        id: ticket.id,
+        action: ticket.action,
+        from_status: ticket.from_status,
+        to_status: ticket.to_status,
+        before_path: ticket.before?.path ?? null,
+        after_path: ticket.after?.path ?? null,
+      })),
+    })),
+  };
+}
+
+async function undoOperation(project: Project, params: any) {
+  const target = findUndoTarget(project, readOperations(project), params);
+  if ("error" in target) return target;
+
+  return await mutateTickets(
+    project,
+    "tickets.undo",
+    (changes) => withGlobalLock(project, () => applyUndo(project, target.id, params, changes)),
+    target.id,
+  );
+}
+
+/** The operation named by operation_id, or the actor's newest one not yet undone. */
+function findUndoTarget(
+  project: Project,
+  operations: Operation[],
+  params: any,
+): Operation | { error: string } {
+  if (typeof params?.operation_id === "string") {
+    const operation = operations.find((op) => op.id === params.operation_id);
+    return operation ?? { error: `Unknown operation: ${params.operation_id}` };
+  }
+  if (typeof params?.actor === "string") {
+    const undone = new Set(operations.map((op) => op.undo_of));
+    const operation = [...operations]
+      .reverse()
+      .find((op) => op.actor === params.actor && !op.undo_of && !undone.has(op.id));
+    return operation ?? { error: `No operation by ${params.actor} left to undo` };
+  }
+  return { error: "Provide operation_id or actor" };
+}
+
+async function applyUndo(
+  project: Project,
+  operationId: string,
+  params: any,
+  changes: TicketChange[],
+) {
+  // Re-read under the global lock: another undo may have won the race.
+  const operations = readOperations(project);
+  const operation = operations.find((op) => op.id === operationId);
+  if (!operation) {
+    return { error: `Unknown operation: ${operationId}` };
+  }
+  const force = params?.force === true;
+  const undoneBy = operations.find((op) => op.undo_of === operationId);
+  if (undoneBy && !force) {
+    return { error: `Operation ${operationId} was already undone by ${undoneBy.id}` };
+  }
+
+  // Every path restoreSnapshot may touch: where the ticket is now and where it goes back to.
+  const lockPaths = operation.tickets.flatMap((ticket) =>
+    [ticket.after?.path, ticket.before?.path, currentTicketPath(project, ticket)].filter(
+      (filePath): filePath is string => typeof filePath === "string",
+    ),
+  );
+  return await withTicketLocks(project, lockPaths, () => {
+    const conflicts = operation.tickets
+      .map((ticket) => undoConflict(project, ticket))
+      .filter((conflict) => conflict !== null);
+    if (conflicts.length > 0 && !force) {
+      return {
+        error: `Ticket changed since operation ${operationId}; pass force: true to undo anyway`,
+        conflicts,
+      };
+    }
+
+    const actor = typeof params?.actor === "string" ? params.actor : null;
+    for (const ticket of operation.tickets) {
+      const denied = undoRoleCheck(project, ticket, actor);
+      if (denied) return denied;
+    }
+    for (const ticket of [...operation.tickets].reverse()) {
+      restoreSnapshot(project, ticket, actor, changes);
+    }
+
+    return {
+      ok: true,
+      undone: operationId,
+      forced: conflicts.length > 0,
+      tickets: changes.map((change) => ({
+        id: change.id,
+        path: change.after === null ? null : change.to_path,
+        revision: change.after === null ? null : contentRevision(change.after),
+      })),
+    };
+  });
+}
+
+/** The role error for the status change reverting `ticket` would make, if any. */
+function undoRoleCheck(project: Project, ticket: OperationTicket, actor: string | null) {
+  if (!ticket.before) return null;
+  const currentPath = currentTicketPath(project, ticket);
+  const current = currentPath ? project.store.read(currentPath) : null;
+  const currentFrontmatter = current === null ? {} : parseFrontmatter(current).frontmatter;
+  const beforeFrontmatter = parseFrontmatter(ticket.before.raw).frontmatter;
+  const from = String(currentFrontmatter.status ?? "");
+  const to = String(beforeFrontmatter.status ?? "");
+  if (to && from !== to) {
+    const roles = transitionRoles(project.config, from, to);
+    const denied = checkRole(project, actor, roles, `undo ${ticket.id} back to ${to}`);
+    if (denied) return denied;
+  }
+
+  // Reverting a field is editing it, so field_roles and the claim roles apply
+  // as they do in tickets.update.
+  const reverted = [...new Set([...Object.keys(currentFrontmatter), ...Object.keys(beforeFrontmatter)])]
+    .filter((field) => !isDeepStrictEqual(currentFrontmatter[field], beforeFrontmatter[field]));
+  return (
+    checkFieldRoles(project, actor, reverted) ??
+    (reverted.some((field) => field === "claimed_by" || field === "claimed_at")
+      ? checkClaimRole(project, actor)
+      : null)
+  );
+}
+
+/** Why a ticket can't be safely reverted to its pre-operation snapshot, if it can't. */
+function undoConflict(project: Project, ticket: OperationTicket) {
+  if (ticket.after) {
+    const current = project.store.read(ticket.after.path);
+    const currentRevision = current === null ? null : contentRevision(current);
+    if (currentRevision === ticket.after.revision) return null;
+    return {
+      id: ticket.id,
+      path: ticket.after.path,
+      expected_revision: ticket.after.revision,
+      current_revision: currentRevision,
+    };
+  }
+
+  // The operation removed the ticket; restoring it must not clobber a new one.
+  const existing =
+    (ticket.id && findTicketById(project, ticket.id)) || project.store.read(ticket.before!.path);
+  if (!existing) return null;
+  return {
+    id: ticket.id,
+    path: ticket.before!.path,
+    expected_revision: null,
+    current_revision: "exists",
+  };
+}
+
+/** Where the ticket an operation wrote is now, if it still exists. */
+function currentTicketPath(project: Project, ticket: OperationTicket): string | null {
+  return ticket.after && project.store.exists(ticket.after.path)
+    ? ticket.after.path
+    : (ticket.id && findTicketById(project, ticket.id)) || null;
+}
+
+function restoreSnapshot(
+  project: Project,
+  ticket: OperationTicket,
+  actor: string | null,
+  changes: TicketChange[],
+) {
+  const currentPath = currentTicketPath(project, ticket);
+  const current = currentPath ? project.store.read(currentPath) : null;
+
+  if (!ticket.before) {
+    if (!currentPath) return;
+    project.cache.files = null;
+    project.store.remove(currentPath);
+    changes.push({
+      action: "undo",
+      id: ticket.id,
+      from_path: null,
+      to_path: currentPath,
+      from_status: ticket.to_status,
+      to_status: null,
+      actor,
+      before: current,
+      after: null,
+    });
+    return;
+  }
+
+  const destination = ticket.before.path;
+  writeTicketContentTo(project, currentPath ?? destination, destination, ticket.before.raw);
+  changes.push({
+    action: "undo",
+    id: ticket.id,
+    from_path: currentPath && currentPath !== destination ? currentPath : null,
+    to_path: destination,
+    from_status: ticket.to_status,
+    to_status: ticket.from_status,
+    actor,
+    before: current,
+    after: ticket.before.raw,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Crash recovery
 // ---------------------------------------------------------------------------
 
-function formatStatusHeading(status: string): string {
-  return status
-    .split("_")
-    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
-    .join(" ");
+/** Lets each project's store finish or roll back moves interrupted by a crash. */
+async function recoverProjects(state: ServerState): Promise<void> {
+  await Promise.all(
+    [...state.projects.values()].map((project) =>
+      project.store.recover().then(
+        () => undefined,
+        (err) => {
+          process.stderr.write(
+            `ticket-mcp: move recovery failed for ${project.name}: ${err?.message ?? err}\n`,
+          );
+        },
+      ),
+    ),
+  );
 }
 
+// ---------------------------------------------------------------------------
+// INDEX.md auto-generation
+// ---------------------------------------------------------------------------
+
 function escapeMarkdownPipe(text: string): string {
   return text.replace(/\|/g, "\\|");
 }
 
-async function regenerateIndex(): Promise<void> {
-  const files = await listTicketFiles();
-  const summaries = files
-    .map((f) => readTicketSummary(f))
-    .filter((s): s is TicketSummary => s !== null);
+async function writeIndex(project: Project): Promise<void> {
+  const summaries = listTicketSummaries(project);
 
   const groups = new Map<string, TicketSummary[]>();
   for (const s of summaries) {
@@ -1249,8 +4755,9 @@ async function regenerateIndex(): Promise<void> {
     list.sort((a, b) => (b.updated_at ?? "").localeCompare(a.updated_at ?? ""));
   }
 
-  const ACTIVE = ["in_progress", "blocked", "pending", "awaiting_human_test"];
-  const TERMINAL = ["done", "archived"];
+  // Terminal statuses come last and collapsed, whatever index_order says.
+  const order = project.config.index_order;
+  const isTerminal = (status: string) => isTerminalStatus(project.config, status);
   const lines: string[] = [
     "# Ticket Index",
     "",
@@ -1260,15 +4767,15 @@ async function regenerateIndex(): Promise<void> {
     "",
   ];
 
-  for (const status of [...ACTIVE, ...TERMINAL]) {
+  for (const status of [...order.filter((s) => !isTerminal(s)), ...order.filter(isTerminal)]) {
     const tickets = groups.get(status);
     if (!tickets || tickets.length === 0) continue;
 
-    const isTerminal = TERMINAL.includes(status);
-    lines.push(`## ${formatStatusHeading(status)} (${tickets.length})`);
+    const terminal = isTerminal(status);
+    lines.push(`## ${statusLabel(project.config, status)} (${tickets.length})`);
     lines.push("");
 
-    if (isTerminal) {
+    if (terminal) {
       lines.push("<details>");
       lines.push(`<summary>Show ${tickets.length} ${status} tickets</summary>`);
       lines.push("");
@@ -1283,18 +4790,22 @@ async function regenerateIndex(): Promise<void> {
       );
     }
 
-    if (isTerminal) {
+    if (terminal) {
       lines.push("");
       lines.push("</details>");
     }
     lines.push("");
   }
 
-  const indexPath = path.join(ticketsRoot, "INDEX.md");
-  fs.writeFileSync(indexPath, lines.join("\n"), "utf8");
+  const indexPath = path.join(project.ticketsRoot, "INDEX.md");
+  project.store.write(indexPath, lines.join("\n"));
 }
 
-function orderFrontmatter(frontmatter: Record<string, any>) {
+/**
+ * Built-in fields first, then the project's custom fields in config order,
+ * then any other keys alphabetically, so rewrites never reshuffle a file.
+ */
+function orderFrontmatter(project: Project, frontmatter: Record<string, any>) {
   const {
     id,
     title,
@@ -1311,11 +4822,20 @@ function orderFrontmatter(frontmatter: Record<string, any>) {
     depends_on,
     claimed_by,
     claimed_at,
+    lease_expires_at,
     work_log,
     review_notes,
     ...rest
   } = frontmatter;
 
+  const custom: Record<string, unknown> = {};
+  for (const field of project.config.fields) {
+    if (field.name in rest) {
+      custom[field.name] = rest[field.name];
+      delete rest[field.name];
+    }
+  }
+
   return {
     id,
     title,
@@ -1332,29 +4852,45 @@ function orderFrontmatter(frontmatter: Record<string, any>) {
     depends_on,
     claimed_by,
     claimed_at,
+    lease_expires_at,
     work_log,
     review_notes,
-    ...rest,
+    ...custom,
+    ...Object.fromEntries(Object.keys(rest).sort().map((key) => [key, rest[key]])),
   };
 }
 
-function validateTicket(frontmatter: Record<string, any>, body: string, filePath: string): string[] {
+function validateTicket(
+  project: Project,
+  frontmatter: Record<string, any>,
+  body: string,
+  filePath: string,
+): string[] {
   const issues: string[] = [];
 
-  for (const field of REQUIRED_FIELDS) {
+  for (const field of project.config.required_fields) {
     if (frontmatter[field] === undefined) {
       issues.push(`Missing required field: ${field}`);
     }
   }
 
-  for (const header of REQUIRED_BODY_HEADERS) {
+  for (const field of project.config.fields) {
+    const value = frontmatter[field.name];
+    if (field.required && (value === undefined || value === null)) {
+      issues.push(`Missing required field: ${field.name}`);
+    }
+    const invalid = validateCustomField(field, value);
+    if (invalid) issues.push(invalid);
+  }
+
+  for (const header of project.config.required_sections) {
     if (!body.includes(header)) {
       issues.push(`Missing required markdown section: ${header}`);
     }
   }
 
-  if (frontmatter.status && !TicketStatusValues.includes(frontmatter.status)) {
-    issues.push(formatInvalidStatus(frontmatter.status));
+  if (frontmatter.status && !statusNames(project.config).includes(frontmatter.status)) {
+    issues.push(formatInvalidStatus(project, frontmatter.status));
   }
 
   if (frontmatter.work_log) {
@@ -1362,7 +4898,7 @@ function validateTicket(frontmatter: Record<string, any>, body: string, filePath
     issues.push(...invalid);
   }
 
-  const statusIssue = validateFolderStatus(frontmatter.status, filePath);
+  const statusIssue = validateFolderStatus(project, frontmatter.status, filePath);
   if (statusIssue) {
     issues.push(statusIssue);
   }
@@ -1379,6 +4915,10 @@ function validateTicket(frontmatter: Record<string, any>, body: string, filePath
     issues.push("Invalid claimed_at timestamp");
   }
 
+  if (frontmatter.lease_expires_at && !isValidDate(frontmatter.lease_expires_at)) {
+    issues.push("Invalid lease_expires_at timestamp");
+  }
+
   if (frontmatter.key_files && !Array.isArray(frontmatter.key_files)) {
     issues.push("key_files must be a list");
   }
@@ -1455,65 +4995,61 @@ function validateWorkLog(workLog: unknown): string[] {
 }
 
 function validateFolderStatus(
-  status: TicketStatus | string,
+  project: Project,
+  status: string,
   filePath: string,
 ): string | null {
   if (!status) return null;
-  const folder = getStatusFolder(filePath);
+  const folder = getStatusFolder(project, filePath);
   if (!folder) return null;
-  const allowed = FOLDER_TO_STATUS[folder];
-  if (!allowed) return null;
-  if (!allowed.includes(status as TicketStatus)) {
+  const allowed = folderStatuses(project.config, folder);
+  if (allowed.length === 0) return null;
+  if (!allowed.includes(status)) {
     return `Folder/status mismatch: ${folder} vs ${status}`;
   }
   return null;
 }
 
-function getStatusFolder(filePath: string): string | null {
-  const candidates = Object.keys(FOLDER_TO_STATUS);
-  for (const folder of candidates) {
-    const base = path.join(ticketsRoot, folder) + path.sep;
+function getStatusFolder(project: Project, filePath: string): string | null {
+  for (const folder of ticketFolders(project.config)) {
+    const base = path.join(project.ticketsRoot, folder) + path.sep;
     if (filePath.startsWith(base)) return folder;
   }
   return null;
 }
 
-function resolvePathForStatus(filePath: string, status: TicketStatus): string | null {
-  const folder = STATUS_TO_FOLDER[status];
+function resolvePathForStatus(project: Project, filePath: string, status: string): string | null {
+  const folder = statusFolder(project.config, status);
   if (!folder) return null;
-  const relative = ticketRelativePath(filePath);
+  const relative = ticketRelativePath(project, filePath);
   if (!relative) return null;
-  return path.join(ticketsRoot, folder, relative);
+  return path.join(project.ticketsRoot, folder, relative);
 }
 
-function ticketRelativePath(filePath: string): string | null {
-  const folder = getStatusFolder(filePath);
+function ticketRelativePath(project: Project, filePath: string): string | null {
+  const folder = getStatusFolder(project, filePath);
   if (!folder) return null;
-  const base = path.join(ticketsRoot, folder);
+  const base = path.join(project.ticketsRoot, folder);
   const relative = path.relative(base, filePath);
   if (relative.startsWith("..")) return null;
   return relative;
 }
 
-function findTicketById(id: string): string | null {
-  const files = fg.sync(
-    [
-      "tickets/pending/**/*.md",
-      "tickets/in_progress/**/*.md",
-      "tickets/awaiting_human_test/**/*.md",
-      "tickets/done/**/*.md",
-      "tickets/archive/**/*.md",
-    ],
-    { cwd: repoRoot, absolute: true },
-  );
-
-  for (const filePath of files) {
-    const record = readTicket(filePath);
-    if (!record) continue;
-    if (String(record.frontmatter.id) === id) return filePath;
+function findTicketById(project: Project, id: string): string | null {
+  const knownPath = project.cache.idIndex.get(id);
+  if (knownPath) {
+    const entry = loadTicket(project, knownPath);
+    if (entry && entry.summary.id === id) {
+      project.cache.metrics.id_hits++;
+      return knownPath;
+    }
   }
 
-  return null;
+  project.cache.metrics.id_misses++;
+  // The ticket may have been created since the watcher last fired.
+  project.cache.files = null;
+  scanTickets(project);
+  return project.cache.idIndex.get(id) ?? null;
 }
 
 function isValidDate(value: string): boolean {
@@ -1536,23 +5072,25 @@ function slugify(input: string): string {
     .slice(0, 80);
 }
 
-export const REQUIRED_BODY_HEADERS = [
-  "## Overview",
-  "## Approach (medium/high-level)",
-  "## Tasks / Todos",
-  "## Requirements (AI implementation)",
-  "## Human Testing Steps",
-  "## Key Files / Areas (notes)",
-  "## Questions",
-  "## Blockers",
-  "## Implementation Notes"
-];
-
-function defaultBody(title: string): string {
-  const headers = REQUIRED_BODY_HEADERS.join("\n\n");
+function defaultBody(project: Project, title: string): string {
+  const headers = project.config.required_sections.join("\n\n");
   return `# ${title}\n\n${headers}\n`;
 }
 
-function ensureDir(dirPath: string) {
-  fs.mkdirSync(dirPath, { recursive: true });
+if (require.main === module) {
+  if (process.argv.includes("--stdio")) {
+    startStdioServer().closed.then(() => process.exit(0));
+    process.on("SIGINT", () => process.exit(0));
+  } else {
+    startServer()
+      .then(({ host, port, path: serverPath }) => {
+        // eslint-disable-next-line no-console
+        console.log(`ticket-mcp listening on http://${host}:${port}${serverPath}`);
+      })
+      .catch((err) => {
+        // eslint-disable-next-line no-console
+        console.error(err);
+        process.exit(1);
+      });
+  }
 }
@@ -0,0 +1,57 @@
+import { createHash } from "crypto";
+
+// Storage behind the ticket engine. Every backend addresses files by absolute
+// path under its ticketsRoot, so the server is written once against this
+// interface whether tickets live on disk (markdown_store) or in memory
+// (memory_store).
+
+export type FileStamp = {
+  /** Changes whenever the contents may have changed. */
+  version: string;
+  size: number;
+};
+
+export type StoreRecovery = { completed: string[]; rolled_back: string[] };
+
+export interface TicketStore {
+  readonly kind: "markdown" | "memory";
+  readonly ticketsRoot: string;
+
+  /** Ticket files under the given status folders, grouped in folder order. */
+  listTicketFiles(folders: string[]): string[];
+  /** Files directly inside `dir` ending in `extension`, sorted. */
+  listFiles(dir: string, extension: string): string[];
+  stat(filePath: string): FileStamp | null;
+  read(filePath: string): string | null;
+  exists(filePath: string): boolean;
+  /** Replaces the file in one step, creating parent folders as needed. */
+  write(filePath: string, content: string): void;
+  /** Writes `destination` and removes `source`; never leaves both or neither. */
+  move(source: string, destination: string, content: string): void;
+  remove(filePath: string): void;
+  append(filePath: string, content: string): void;
+
+  /** Lock key for a ticket; the same in every status folder. */
+  ticketLockKey(filePath: string): string;
+  /** Lock key guarding id allocation, INDEX.md and the operation journal. */
+  globalLockKey(): string;
+  withLock<T>(key: string, fn: () => Promise<T> | T): Promise<T>;
+  isLockHeld(key: string): boolean;
+
+  /** Finishes or rolls back moves interrupted by a crash. */
+  recover(): Promise<StoreRecovery>;
+  /**
+   * Calls `onChange` (with the changed path when known) whenever files
+   * change, including edits made outside the server. Null if unsupported.
+   * `onStop` is called if the watcher fails and cannot be restarted.
+   */
+  watch(
+    onChange: (filePath: string | null) => void,
+    onStop?: () => void,
+  ): { close(): void } | null;
+}
+
+/** Short content hash; exposed to clients as a ticket's `revision`. */
+export function contentRevision(raw: string): string {
+  return createHash("sha256").update(raw).digest("hex").slice(0, 16);
+}
@@ -0,0 +1,146 @@
+import type { TicketConfig } from "./project_config";
+
+// Which status changes tickets.move allows, and the guard conditions a ticket
+// must meet for each. Guards are named in the config:
+//
+//   claimed               claimed_by is set
+//   handoff               a handoff work_log entry newer than the last claim
+//   implementation_notes  the "## Implementation Notes" section has content
+//   field:<name>          the frontmatter field is set and not empty
+//   section:<heading>     the body section "<heading>" has content
+//   work_log:<kind>       a work_log entry of that kind newer than the last claim
+
+export type Transition = {
+  to: string;
+  guards: string[];
+  /** Roles allowed to make this move; anyone when omitted. */
+  roles?: string[];
+};
+
+export type GuardFailure = { guard: string; message: string };
+
+const NAMED_GUARDS: Record<string, string> = {
+  claimed: "field:claimed_by",
+  handoff: "work_log:handoff",
+  implementation_notes: "section:## Implementation Notes",
+};
+
+const GUARD_FORMS = ["field:", "section:", "work_log:"];
+
+/** Why `guard` is not a guard this module understands, or null. */
+export function guardIssue(guard: string): string | null {
+  const expanded = NAMED_GUARDS[guard] ?? guard;
+  const form = GUARD_FORMS.find((prefix) => expanded.startsWith(prefix));
+  if (!form || expanded.length === form.length) {
+    return `Unknown guard: ${guard} (use ${Object.keys(NAMED_GUARDS).join(", ")}, field:<name>, section:<heading> or work_log:<kind>)`;
+  }
+  return null;
+}
+
+/** Transitions out of `from`; null when the config does not restrict moves. */
+export function transitionsFrom(config: TicketConfig, from: string): Transition[] | null {
+  if (!config.transitions) return null;
+  return config.transitions[from] ?? [];
+}
+
+/**
+ * The transition from `from` to `to`, or null if the matrix forbids it.
+ * Staying in the same status is always allowed and has no guards.
+ */
+export function findTransition(config: TicketConfig, from: string, to: string): Transition | null {
+  if (from === to) return { to, guards: [] };
+  const transitions = transitionsFrom(config, from);
+  if (transitions === null) return { to, guards: [] };
+  return transitions.find((transition) => transition.to === to) ?? null;
+}
+
+/**
+ * What arriving in `to` requires when there is no known from-status (a
+ * ticket whose status is unknown, a create, an undo): the guards every
+ * transition into `to` shares, and the roles any of them allows.
+ */
+export function transitionInto(config: TicketConfig, to: string): Transition {
+  const into = Object.values(config.transitions ?? {})
+    .flat()
+    .filter((transition) => transition.to === to);
+  if (into.length === 0) return { to, guards: [] };
+
+  const guards = into[0].guards.filter((guard) =>
+    into.every((transition) => transition.guards.includes(guard)),
+  );
+  const roles = into.every((transition) => transition.roles)
+    ? [...new Set(into.flatMap((transition) => transition.roles!))]
+    : undefined;
+  return { to, guards, roles };
+}
+
+/** Roles a status change needs: the matrix's transition, else any way into `to`. */
+export function transitionRoles(config: TicketConfig, from: string, to: string): string[] | undefined {
+  if (from === to) return undefined;
+  return (findTransition(config, from, to) ?? transitionInto(config, to)).roles;
+}
+
+/** Guards of `transition` that the ticket (as it would be written) fails. */
+export function failedGuards(
+  transition: Transition,
+  frontmatter: Record<string, any>,
+  body: string,
+): GuardFailure[] {
+  return transition.guards
+    .map((guard) => {
+      const message = checkGuard(NAMED_GUARDS[guard] ?? guard, frontmatter, body);
+      return message ? { guard, message } : null;
+    })
+    .filter((failure): failure is GuardFailure => failure !== null);
+}
+
+function checkGuard(guard: string, frontmatter: Record<string, any>, body: string): string | null {
+  if (guard.startsWith("field:")) {
+    const field = guard.slice("field:".length);
+    return isEmptyValue(frontmatter[field]) ? `${field} must be set` : null;
+  }
+
+  if (guard.startsWith("section:")) {
+    const heading = guard.slice("section:".length);
+    return sectionContent(body, heading) ? null : `Section "${heading}" must not be empty`;
+  }
+
+  const kind = guard.slice("work_log:".length);
+  return hasWorkLogSinceClaim(frontmatter.work_log, kind)
+    ? null
+    : `work_log needs a ${kind} entry${kind === "claim" ? "" : " since the ticket was last claimed"}`;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === "string") return value.trim() === "";
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+/** Text between `heading` and the next heading of the same or higher level. */
+export function sectionContent(body: string, heading: string): string {
+  const lines = body.split("\n");
+  const start = lines.findIndex((line) => line.trim() === heading.trim());
+  if (start === -1) return "";
+
+  const level = heading.trim().match(/^#+/)?.[0].length ?? 2;
+  const content: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    const match = line.match(/^(#+)\s/);
+    if (match && match[1].length <= level) break;
+    content.push(line);
+  }
+  return content.join("\n").trim();
+}
+
+function hasWorkLogSinceClaim(workLog: unknown, kind: string): boolean {
+  if (!Array.isArray(workLog)) return false;
+  let lastClaim = -1;
+  if (kind !== "claim") {
+    workLog.forEach((entry, index) => {
+      if (entry?.kind === "claim") lastClaim = index;
+    });
+  }
+  return workLog.some((entry, index) => index > lastClaim && entry?.kind === kind);
+}
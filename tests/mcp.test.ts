@@ -1,8 +1,10 @@
-import { test } from "node:test";
+import { TestContext, test } from "node:test";
 import assert from "node:assert/strict";
+import { execFileSync, spawn } from "node:child_process";
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
+import readline from "node:readline";
 
 type RpcResponse = {
   result?: {
@@ -36,10 +38,119 @@ async function callTool(url: string, name: string, args?: any) {
   return text ? JSON.parse(text) : null;
 }
 
-function writeFixtureTicket(root: string) {
-  const ticketsDir = path.join(root, "tickets", "pending");
-  fs.mkdirSync(ticketsDir, { recursive: true });
-  const baseTicket = `---
+async function openEventStream(url: string, headers: Record<string, string> = {}) {
+  const controller = new AbortController();
+  const response = await fetch(url, {
+    headers: { Accept: "text/event-stream", ...headers },
+    signal: controller.signal,
+  });
+  assert.equal(response.headers.get("content-type"), "text/event-stream");
+
+  const messages: any[] = [];
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  const pump = (async () => {
+    try {
+      for (; ;) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        buffer += decoder.decode(value, { stream: true });
+        let boundary = buffer.indexOf("\n\n");
+        while (boundary !== -1) {
+          const event = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          const data = event
+            .split("\n")
+            .filter((line) => line.startsWith("data: "))
+            .map((line) => line.slice("data: ".length))
+            .join("\n");
+          if (data) messages.push(JSON.parse(data));
+          boundary = buffer.indexOf("\n\n");
+        }
+      }
+    } catch {
+      // aborted
+    }
+  })();
+
+  return {
+    messages,
+    async waitFor(predicate: (message: any) => boolean, timeoutMs = 2000) {
+      const deadline = Date.now() + timeoutMs;
+      while (Date.now() < deadline) {
+        const found = messages.find(predicate);
+        if (found) return found;
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      throw new Error("Timed out waiting for notification");
+    },
+    async close() {
+      controller.abort();
+      await pump;
+    },
+  };
+}
+
+function spawnStdioServer(root: string) {
+  const child = spawn(
+    process.execPath,
+    ["--import", "tsx", path.join(__dirname, "..", "src", "server.ts"), "--stdio"],
+    {
+      cwd: path.join(__dirname, ".."),
+      env: { ...process.env, TICKET_ROOT: root, TICKET_WATCH: "false" },
+      stdio: ["pipe", "pipe", "inherit"],
+    },
+  );
+
+  const waiting = new Map<number, (message: any) => void>();
+  readline.createInterface({ input: child.stdout }).on("line", (line) => {
+    const message = JSON.parse(line);
+    waiting.get(message.id)?.(message);
+    waiting.delete(message.id);
+  });
+  const exited = new Promise<number | null>((resolve) => child.once("exit", resolve));
+
+  let nextId = 1;
+  return {
+    callTool(name: string, args: any) {
+      const id = nextId++;
+      const response = new Promise<any>((resolve) => waiting.set(id, resolve));
+      child.stdin.write(
+        JSON.stringify({
+          jsonrpc: "2.0",
+          id,
+          method: "tools/call",
+          params: { name, arguments: args },
+        }) + "\n",
+      );
+      return response.then((message) => message.result.data);
+    },
+    async close() {
+      child.stdin.end();
+      return await exited;
+    },
+  };
+}
+
+/** Turns `root` into a git repo with the current files committed as "seed". */
+function gitIn(root: string) {
+  return (...args: string[]) => execFileSync("git", args, { cwd: root, encoding: "utf8" }).trim();
+}
+
+function initGitRepo(root: string) {
+  const git = gitIn(root);
+  git("init", "--quiet");
+  git("config", "user.name", "Ticket Test");
+  git("config", "user.email", "tickets@example.com");
+  git("add", "-A");
+  git("commit", "--quiet", "-m", "seed");
+  return git;
+}
+
+/** The fixture tickets, keyed by path relative to tickets/ (as createMemoryTicketStore takes them). */
+const FIXTURE_TICKETS: Record<string, string> = {
+  "pending/2026-01-01__T-BASE-001__fixture-ticket.md": `---
 id: T-BASE-001
 title: "Fixture Ticket"
 status: pending
@@ -85,14 +196,8 @@ review_notes: null
 ## Blockers
 
 ## Implementation Notes
-`;
-  fs.writeFileSync(
-    path.join(ticketsDir, "2026-01-01__T-BASE-001__fixture-ticket.md"),
-    baseTicket,
-    "utf8",
-  );
-
-  const higherNumberTicket = `---
+`,
+  "pending/2026-01-02__T-BASE-042__seed-ticket.md": `---
 id: T-BASE-042
 title: "Seed Ticket"
 status: pending
@@ -138,14 +243,8 @@ review_notes: null
 ## Blockers
 
 ## Implementation Notes
-`;
-  fs.writeFileSync(
-    path.join(ticketsDir, "2026-01-02__T-BASE-042__seed-ticket.md"),
-    higherNumberTicket,
-    "utf8",
-  );
-
-  const mismatchedTicket = `---
+`,
+  "pending/2026-01-03__T-BASE-100__mismatch-ticket.md": `---
 id: T-BASE-100
 title: "Mismatch Ticket"
 status: done
@@ -182,29 +281,74 @@ constraints: []
 ## Blockers
 
 ## Implementation Notes
-`;
-  fs.writeFileSync(
-    path.join(ticketsDir, "2026-01-03__T-BASE-100__mismatch-ticket.md"),
-    mismatchedTicket,
-    "utf8",
-  );
+`,
+};
+
+type TestServerOptions = {
+  /** Seed the three fixture tickets (default true). */
+  fixtures?: boolean;
+  /** More files, keyed by path relative to tickets/ (e.g. ".ticket-mcp.yaml"). */
+  files?: Record<string, string>;
+  /** Extra startServer options. */
+  server?: Record<string, unknown>;
+};
+
+function seedFiles(options: TestServerOptions): Record<string, string> {
+  return { ...(options.fixtures === false ? {} : FIXTURE_TICKETS), ...options.files };
 }
 
-test("ticket MCP tool integration", async (t) => {
+/** A temp repo with the seeded tickets/ files, removed when the test ends. */
+function createFixtureRepo(t: TestContext, options: TestServerOptions = {}) {
   const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), "ticket-mcp-"));
-  writeFixtureTicket(tempRoot);
+  t.after(() => fs.rmSync(tempRoot, { recursive: true, force: true }));
+  const ticketsDir = path.join(tempRoot, "tickets");
+  fs.mkdirSync(ticketsDir, { recursive: true });
+  for (const [relative, content] of Object.entries(seedFiles(options))) {
+    fs.mkdirSync(path.dirname(path.join(ticketsDir, relative)), { recursive: true });
+    fs.writeFileSync(path.join(ticketsDir, relative), content, "utf8");
+  }
+  return { tempRoot, ticketsDir };
+}
+
+/**
+ * A strict server on a random port over a fixture repo, closed when the test
+ * ends. For tests that need real files, git or other processes; `git: true`
+ * commits the seeded files first.
+ */
+async function startRepoServer(t: TestContext, options: TestServerOptions & { git?: boolean } = {}) {
+  const { tempRoot, ticketsDir } = createFixtureRepo(t, options);
+  const git = options.git ? initGitRepo(tempRoot) : gitIn(tempRoot);
 
-  process.env.TICKET_ROOT = tempRoot;
   const { startServer } = await import("../src/server");
   const { server, url } = await startServer({
     host: "127.0.0.1",
     port: 0,
     strict: true,
     repoRoot: tempRoot,
+    ...options.server,
   });
+  t.after(() => server.close());
+  return { server, url, tempRoot, ticketsDir, git };
+}
 
+/** Like startRepoServer, over an in-memory store, for tests where the disk is beside the point. */
+async function startMemoryServer(t: TestContext, options: TestServerOptions = {}) {
+  const { startServer, createMemoryTicketStore } = await import("../src/server");
+  const ticketsDir = path.join(os.tmpdir(), `ticket-mcp-memory-${process.pid}`, "tickets");
+  const store = createMemoryTicketStore(ticketsDir, seedFiles(options));
+  const { server, url } = await startServer({
+    host: "127.0.0.1",
+    port: 0,
+    strict: true,
+    store,
+    ...options.server,
+  });
   t.after(() => server.close());
-  t.after(() => fs.rmSync(tempRoot, { recursive: true, force: true }));
+  return { server, url, store, ticketsDir };
+}
+
+test("ticket MCP tool integration", async (t) => {
+  const { url } = await startRepoServer(t);
 
   const listResult = await callTool(url, "tickets_list", {
     status: ["pending"],
@@ -318,3 +462,1822 @@ test("ticket MCP tool integration", async (t) => {
   });
   assert.ok(invalidCreate.error);
 });
+
+test("ticket MCP resources", async (t) => {
+  const { url, store, ticketsDir } = await startMemoryServer(t);
+
+  const init = await rpc(url, "initialize", {});
+  assert.ok((init as any).capabilities.resources);
+
+  const listed = (await rpc(url, "resources/list", {})) as any;
+  const uris = listed.resources.map((resource: any) => resource.uri);
+  assert.deepEqual(uris, ["ticket://T-BASE-001", "ticket://T-BASE-042", "ticket://T-BASE-100"]);
+
+  const templates = (await rpc(url, "resources/templates/list", {})) as any;
+  assert.equal(templates.resourceTemplates[0].uriTemplate, "ticket://{id}");
+
+  const read = (await rpc(url, "resources/read", { uri: "ticket://T-BASE-001" })) as any;
+  assert.equal(read.contents.length, 2);
+  assert.equal(read.contents[0].mimeType, "text/markdown");
+  assert.ok(read.contents[0].text.startsWith("---\nid: T-BASE-001"));
+  assert.equal(JSON.parse(read.contents[1].text).frontmatter.title, "Fixture Ticket");
+
+  await assert.rejects(rpc(url, "resources/read", { uri: "ticket://T-MISSING" }), /Resource not found/);
+
+  await callTool(url, "tickets_update", { id: "T-BASE-042", patch: { epic: "qa" } });
+  assert.ok(store.exists(path.join(ticketsDir, "INDEX.md")));
+  const relisted = (await rpc(url, "resources/list", {})) as any;
+  assert.equal(relisted.resources[0].uri, "ticket://INDEX.md");
+  const index = (await rpc(url, "resources/read", { uri: "ticket://INDEX.md" })) as any;
+  assert.ok(index.contents[0].text.startsWith("# Ticket Index"));
+});
+
+test("ticket MCP change notifications", async (t) => {
+  const { url, ticketsDir } = await startRepoServer(t);
+
+  const stream = await openEventStream(url);
+  t.after(() => stream.close());
+
+  const claim = await callTool(url, "tickets_claim", {
+    id: "T-BASE-001",
+    actor: "worker-ai:test",
+  });
+  assert.ok(claim.ok);
+
+  await stream.waitFor(
+    (message) => message.method === "notifications/resources/list_changed",
+  );
+  await stream.waitFor(
+    (message) =>
+      message.method === "notifications/resources/updated" &&
+      message.params.uri === "ticket://T-BASE-001",
+  );
+  await new Promise((resolve) => setTimeout(resolve, 300));
+  const moveEvents = stream.messages.filter(
+    (message) => message.params?.uri === "ticket://T-BASE-001",
+  );
+  assert.equal(moveEvents.length, 1);
+
+  // Hand edits outside the server are picked up too.
+  const editedPath = path.join(ticketsDir, "pending", "2026-01-02__T-BASE-042__seed-ticket.md");
+  fs.appendFileSync(editedPath, "\nEdited by a human.\n", "utf8");
+  await stream.waitFor(
+    (message) =>
+      message.method === "notifications/resources/updated" &&
+      message.params.uri === "ticket://T-BASE-042",
+  );
+});
+
+test("ticket MCP prompts", async (t) => {
+  const { url } = await startMemoryServer(t, {
+    files: {
+      ".prompts/security_review.md": `---
+description: "Security review checklist"
+arguments:
+  - name: ticket_id
+    required: true
+---
+Review {{id}} ({{title}}) for security issues.
+{{requirements}}
+`,
+    },
+  });
+
+  const listed = (await rpc(url, "prompts/list", {})) as any;
+  const names = listed.prompts.map((prompt: any) => prompt.name);
+  assert.deepEqual(names, [
+    "pick_up_ticket",
+    "write_handoff",
+    "review_for_human_testing",
+    "security_review",
+  ]);
+
+  const pickUp = (await rpc(url, "prompts/get", {
+    name: "pick_up_ticket",
+    arguments: { ticket_id: "T-BASE-001", actor: "worker-ai:test" },
+  })) as any;
+  const text = pickUp.messages[0].content.text;
+  assert.ok(text.includes("Baseline ticket used for MCP integration tests."));
+  assert.ok(text.includes("- Must be discoverable via tickets_list."));
+  assert.ok(text.includes('actor "worker-ai:test"'));
+
+  const custom = (await rpc(url, "prompts/get", {
+    name: "security_review",
+    arguments: { ticket_id: "T-BASE-042" },
+  })) as any;
+  assert.equal(
+    custom.messages[0].content.text,
+    "Review T-BASE-042 (Seed Ticket) for security issues.\n- Must be valid and indexed.",
+  );
+
+  await assert.rejects(
+    rpc(url, "prompts/get", { name: "write_handoff", arguments: {} }),
+    /Missing required argument: ticket_id/,
+  );
+  await assert.rejects(
+    rpc(url, "prompts/get", { name: "write_handoff", arguments: { ticket_id: "T-NOPE" } }),
+    /Ticket not found/,
+  );
+});
+
+test("ticket MCP stdio transport", async (t) => {
+  const { tempRoot } = createFixtureRepo(t);
+
+  const child = spawn(
+    process.execPath,
+    ["--import", "tsx", path.join(__dirname, "..", "src", "server.ts"), "--stdio"],
+    {
+      cwd: path.join(__dirname, ".."),
+      env: { ...process.env, TICKET_ROOT: tempRoot, TICKET_WATCH: "false" },
+      stdio: ["pipe", "pipe", "pipe"],
+    },
+  );
+
+  const stdoutLines: string[] = [];
+  readline.createInterface({ input: child.stdout }).on("line", (line) => {
+    stdoutLines.push(line);
+  });
+  const exited = new Promise<number | null>((resolve) => child.once("exit", resolve));
+
+  child.stdin.write(
+    [
+      JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} }),
+      JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" }),
+      "{not json",
+      JSON.stringify({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/call",
+        params: { name: "tickets_get", arguments: { id: "T-BASE-001" } },
+      }),
+    ].join("\n") + "\n",
+  );
+  child.stdin.end();
+  assert.equal(await exited, 0);
+
+  // Every stdout line must be a protocol message; notifications get no reply.
+  const messages = stdoutLines.map((line) => JSON.parse(line));
+  assert.equal(messages.length, 3);
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  assert.equal(byId.get(null).error.code, -32700);
+  assert.equal(byId.get(1).result.serverInfo.name, "ticket-mcp");
+  assert.equal(byId.get(2).result.data.frontmatter.id, "T-BASE-001");
+});
+
+test("ticket MCP streamable HTTP sessions", async (t) => {
+  const { url } = await startMemoryServer(t);
+
+  const post = (body: any, headers: Record<string, string> = {}) =>
+    fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+
+  const init = await post({
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: { protocolVersion: "2025-03-26" },
+  });
+  const sessionId = init.headers.get("mcp-session-id");
+  assert.ok(sessionId);
+  const initJson = (await init.json()) as any;
+  assert.equal(initJson.result.protocolVersion, "2025-03-26");
+  assert.equal(initJson.result.capabilities.resources.subscribe, true);
+
+  const session = { "Mcp-Session-Id": sessionId! };
+  const subscribe = await post(
+    { jsonrpc: "2.0", id: 2, method: "resources/subscribe", params: { uri: "ticket://T-BASE-001" } },
+    session,
+  );
+  assert.deepEqual(((await subscribe.json()) as any).result, {});
+
+  const stream = await openEventStream(url, session);
+  t.after(() => stream.close());
+
+  await callTool(url, "tickets_update", { id: "T-BASE-042", patch: { epic: "qa" } });
+  await callTool(url, "tickets_update", { id: "T-BASE-001", patch: { epic: "qa" } });
+  await stream.waitFor(
+    (message) =>
+      message.method === "notifications/resources/updated" &&
+      message.params.uri === "ticket://T-BASE-001",
+  );
+  assert.ok(!stream.messages.some((message) => message.params?.uri === "ticket://T-BASE-042"));
+
+  const sse = await post(
+    { jsonrpc: "2.0", id: 3, method: "tools/list", params: {} },
+    { ...session, Accept: "text/event-stream" },
+  );
+  assert.equal(sse.headers.get("content-type"), "text/event-stream");
+  const sseText = await sse.text();
+  const data = JSON.parse(sseText.split("\n").find((line) => line.startsWith("data: "))!.slice(6));
+  assert.equal(data.id, 3);
+  assert.ok(data.result.tools.length > 0);
+
+  const deleted = await fetch(url, { method: "DELETE", headers: session });
+  assert.equal(deleted.status, 204);
+  const afterDelete = await post({ jsonrpc: "2.0", id: 4, method: "tools/list" }, session);
+  assert.equal(afterDelete.status, 404);
+
+  // Plain JSON clients without a session keep working, query string or not.
+  const stats = await callTool(url, "tickets_stats", {});
+  assert.equal(stats.highest_ticket_number, 100);
+  const withQuery = await callTool(`${url}?token=abc`, "tickets_stats", {});
+  assert.equal(withQuery.highest_ticket_number, 100);
+
+  // Sessions the client never deleted are dropped once idle.
+  const idle = await startMemoryServer(t, { server: { sessionIdleSeconds: 0.05 } });
+  const idleInit = await fetch(idle.url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} }),
+  });
+  const idleSession = { "Mcp-Session-Id": idleInit.headers.get("mcp-session-id")! };
+  await new Promise((resolve) => setTimeout(resolve, 200));
+  const reaped = await fetch(idle.url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...idleSession },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+  });
+  assert.equal(reaped.status, 404);
+});
+
+test("ticket MCP JSON-RPC batches and notifications", async (t) => {
+  const { url } = await startMemoryServer(t);
+
+  const post = (body: string) =>
+    fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    });
+
+  const batch = await post(
+    JSON.stringify([
+      { jsonrpc: "2.0", id: "a", method: "tools/call", params: { name: "tickets_stats" } },
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { jsonrpc: "2.0", id: "b", method: "no/such/method" },
+      { jsonrpc: "1.0", id: "c", method: "tools/list" },
+    ]),
+  );
+  assert.equal(batch.status, 200);
+  const responses = (await batch.json()) as any[];
+  assert.equal(responses.length, 3);
+  const byId = new Map(responses.map((response) => [response.id, response]));
+  assert.equal(byId.get("a").result.data.highest_ticket_number, 100);
+  assert.equal(byId.get("b").error.code, -32601);
+  assert.equal(byId.get("c").error.code, -32600);
+
+  const notificationOnly = await post(
+    JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" }),
+  );
+  assert.equal(notificationOnly.status, 202);
+  assert.equal(await notificationOnly.text(), "");
+
+  const emptyBatch = (await (await post("[]")).json()) as any;
+  assert.equal(emptyBatch.error.code, -32600);
+
+  const malformed = await post("{not json");
+  assert.equal(malformed.status, 400);
+  assert.equal(((await malformed.json()) as any).error.code, -32700);
+});
+
+test("ticket MCP tool argument validation", async (t) => {
+  const { url } = await startMemoryServer(t);
+
+  const badEntry = (await rpc(url, "tools/call", {
+    name: "tickets_append_worklog",
+    arguments: {
+      id: "T-BASE-001",
+      entry: { actor: "worker-ai:test", kind: "celebration", details: { files: [] } },
+    },
+  })) as any;
+  assert.equal(badEntry.isError, true);
+  assert.deepEqual(badEntry.data.issues, [
+    "entry.summary: is required",
+    "entry.kind: must be one of claim, analysis, change, command, handoff, blocker, note",
+    "entry.details.files: unknown property",
+  ]);
+
+  const missingPatch = (await rpc(url, "tools/call", {
+    name: "tickets_update",
+    arguments: { id: "T-BASE-001", patch: { requirements: "not a list" } },
+  })) as any;
+  assert.equal(missingPatch.isError, true);
+  assert.deepEqual(missingPatch.data.issues, [
+    "patch.requirements: expected array, got string",
+  ]);
+
+  const handlerError = (await rpc(url, "tools/call", {
+    name: "tickets_get",
+    arguments: { id: "T-MISSING" },
+  })) as any;
+  assert.equal(handlerError.isError, true);
+  assert.equal(handlerError.data.error, "Ticket not found");
+
+  const ok = (await rpc(url, "tools/call", {
+    name: "tickets_update",
+    arguments: {
+      id: "T-BASE-001",
+      patch: { epic: "qa" },
+      work_log_entry: { actor: "worker-ai:test", kind: "note", summary: "Retagged epic" },
+    },
+  })) as any;
+  assert.equal(ok.isError, false);
+  const updated = await callTool(url, "tickets_get", { id: "T-BASE-001" });
+  assert.ok(updated.frontmatter.work_log[0].at);
+  assert.equal(updated.issues.length, 0);
+});
+
+test("ticket MCP optimistic concurrency", async (t) => {
+  const { url } = await startMemoryServer(t);
+
+  const listed = await callTool(url, "tickets_list", {});
+  const original = await callTool(url, "tickets_get", { id: "T-BASE-001" });
+  assert.ok(original.revision);
+  assert.equal(
+    listed.tickets.find((ticket: any) => ticket.id === "T-BASE-001").revision,
+    original.revision,
+  );
+
+  const first = await callTool(url, "tickets_update", {
+    id: "T-BASE-001",
+    patch: { epic: "qa" },
+    expected_revision: original.revision,
+  });
+  assert.ok(first.ok);
+  assert.notEqual(first.revision, original.revision);
+
+  const stale = await callTool(url, "tickets_append_worklog", {
+    id: "T-BASE-001",
+    entry: { actor: "worker-ai:b", kind: "note", summary: "Based on stale read" },
+    expected_revision: original.revision,
+  });
+  assert.equal(stale.conflict, true);
+  assert.equal(stale.current.revision, first.revision);
+  assert.equal(stale.current.frontmatter.epic, "qa");
+  assert.equal(stale.current.frontmatter.work_log.length, 0);
+
+  const staleMove = await callTool(url, "tickets_move", {
+    id: "T-BASE-001",
+    to_status: "archived",
+    expected_updated_at: original.frontmatter.updated_at,
+  });
+  assert.equal(staleMove.conflict, true);
+
+  const claim = await callTool(url, "tickets_claim", {
+    id: "T-BASE-001",
+    actor: "worker-ai:a",
+    expected_revision: first.revision,
+  });
+  assert.ok(claim.ok);
+  const current = await callTool(url, "tickets_get", { id: "T-BASE-001" });
+  assert.equal(current.revision, claim.revision);
+});
+
+test("ticket MCP concurrent claims across processes", async (t) => {
+  const { url, tempRoot } = await startRepoServer(t);
+
+  const workers = [spawnStdioServer(tempRoot), spawnStdioServer(tempRoot)];
+  // Make sure both children are up before firing the race.
+  await Promise.all(workers.map((worker) => worker.callTool("tickets_stats", {})));
+
+  const attempts: Promise<any>[] = [];
+  for (let round = 0; round < 4; round++) {
+    attempts.push(
+      callTool(url, "tickets_claim", { id: "T-BASE-001", actor: `worker-ai:http-${round}` }),
+    );
+    workers.forEach((worker, index) => {
+      attempts.push(
+        worker.callTool("tickets_claim", {
+          id: "T-BASE-001",
+          actor: `worker-ai:stdio-${index}-${round}`,
+        }),
+      );
+    });
+  }
+  const results = await Promise.all(attempts);
+  for (const worker of workers) {
+    assert.equal(await worker.close(), 0);
+  }
+
+  const winners = results.filter((result) => result.ok);
+  assert.equal(winners.length, 1);
+
+  const claimed = await callTool(url, "tickets_get", { id: "T-BASE-001" });
+  assert.equal(claimed.path, winners[0].path);
+  assert.equal(claimed.frontmatter.claimed_by, claimed.frontmatter.work_log[0].actor);
+  assert.equal(claimed.frontmatter.work_log.length, 1);
+  const copies = fs
+    .readdirSync(path.join(tempRoot, "tickets"), { recursive: true })
+    .filter((entry) => String(entry).endsWith("T-BASE-001__fixture-ticket.md"));
+  assert.equal(copies.length, 1);
+
+  // A lock left behind by a dead process is broken instead of blocking forever.
+  const locksDir = path.join(tempRoot, "tickets", ".locks");
+  fs.writeFileSync(
+    path.join(locksDir, encodeURIComponent("2026-01-02__T-BASE-042__seed-ticket.md") + ".lock"),
+    JSON.stringify({ token: "stale", pid: 999999999, host: os.hostname(), acquired_at: "" }),
+    "utf8",
+  );
+  const afterStale = await callTool(url, "tickets_claim", {
+    id: "T-BASE-042",
+    actor: "worker-ai:after-crash",
+  });
+  assert.ok(afterStale.ok);
+});
+
+test("ticket MCP crash recovery and duplicate detection", async (t) => {
+  const { tempRoot, ticketsDir } = createFixtureRepo(t);
+  const journalDir = path.join(ticketsDir, ".journal", "moves");
+  fs.mkdirSync(journalDir, { recursive: true });
+  const writeIntent = (from: string, to: string) =>
+    fs.writeFileSync(
+      path.join(journalDir, `${encodeURIComponent(path.relative(ticketsDir, from))}.json`),
+      JSON.stringify({ from, to, revision: "unknown", started_at: "2026-01-01T00:00:00Z" }),
+      "utf8",
+    );
+
+  // Crashed after writing the destination but before unlinking the source.
+  const claimedSource = path.join(ticketsDir, "pending", "2026-01-01__T-BASE-001__fixture-ticket.md");
+  const claimedDestination = path.join(ticketsDir, "in_progress", "2026-01-01__T-BASE-001__fixture-ticket.md");
+  fs.mkdirSync(path.dirname(claimedDestination), { recursive: true });
+  fs.writeFileSync(
+    claimedDestination,
+    fs.readFileSync(claimedSource, "utf8").replace("status: pending", "status: in_progress"),
+    "utf8",
+  );
+  writeIntent(claimedSource, claimedDestination);
+
+  // Crashed before the destination was written.
+  const untouched = path.join(ticketsDir, "pending", "2026-01-02__T-BASE-042__seed-ticket.md");
+  writeIntent(untouched, path.join(ticketsDir, "done", "2026-01-02__T-BASE-042__seed-ticket.md"));
+
+  // A stray copy nobody journaled.
+  fs.mkdirSync(path.join(ticketsDir, "archive"), { recursive: true });
+  fs.copyFileSync(
+    path.join(ticketsDir, "pending", "2026-01-03__T-BASE-100__mismatch-ticket.md"),
+    path.join(ticketsDir, "archive", "2026-01-03__T-BASE-100__mismatch-ticket.md"),
+  );
+
+  const { startServer } = await import("../src/server");
+  const { server, url } = await startServer({
+    host: "127.0.0.1",
+    port: 0,
+    strict: true,
+    repoRoot: tempRoot,
+  });
+  t.after(() => server.close());
+
+  const claimed = await callTool(url, "tickets_get", { id: "T-BASE-001" });
+  assert.equal(claimed.path, claimedDestination);
+  assert.equal(fs.existsSync(claimedSource), false);
+  assert.ok(fs.existsSync(untouched));
+  assert.deepEqual(fs.readdirSync(journalDir), []);
+
+  const validation = await callTool(url, "tickets_validate", {});
+  const duplicates = validation.issues.filter((entry: any) =>
+    entry.issues.some((issue: string) => issue.startsWith("Duplicate ticket id T-BASE-100")),
+  );
+  assert.equal(duplicates.length, 2);
+  assert.ok(
+    !validation.issues.some((entry: any) =>
+      entry.issues.some((issue: string) => issue.includes("T-BASE-001")),
+    ),
+  );
+
+  // Ordinary writes leave no temp files or journal entries behind.
+  const moved = await callTool(url, "tickets_move", { id: "T-BASE-042", to_status: "archived" });
+  assert.ok(moved.ok);
+  const leftovers = fs
+    .readdirSync(ticketsDir, { recursive: true })
+    .map(String)
+    .filter((entry) => entry.endsWith(".tmp") || entry.endsWith(".json"));
+  assert.deepEqual(leftovers, []);
+});
+
+test("ticket MCP ticket cache", async (t) => {
+  const { url, tempRoot } = await startRepoServer(t);
+
+  await callTool(url, "tickets_list", {});
+  const before = (await callTool(url, "tickets_stats", {})).cache;
+  await callTool(url, "tickets_list", {});
+  await callTool(url, "tickets_get", { id: "T-BASE-042" });
+  const after = (await callTool(url, "tickets_stats", {})).cache;
+  assert.equal(after.entries, 3);
+  assert.equal(after.misses, before.misses);
+  // The watcher keeps the file list valid, so repeat scans do not glob.
+  assert.ok(after.scans > before.scans);
+  assert.equal(after.globs, before.globs);
+  assert.ok(after.hits > before.hits);
+  assert.ok(after.id_hits > before.id_hits);
+
+  // Edits made behind the server's back are re-parsed on the next scan.
+  const ticketPath = path.join(tempRoot, "tickets", "pending", "2026-01-02__T-BASE-042__seed-ticket.md");
+  fs.writeFileSync(
+    ticketPath,
+    fs.readFileSync(ticketPath, "utf8").replace("title: \"Seed Ticket\"", "title: \"Edited outside\""),
+    "utf8",
+  );
+  const edited = await callTool(url, "tickets_list", { text: "Edited outside" });
+  assert.deepEqual(edited.tickets.map((ticket: any) => ticket.id), ["T-BASE-042"]);
+
+  fs.unlinkSync(ticketPath);
+  const remaining = await callTool(url, "tickets_list", {});
+  assert.equal(remaining.tickets.length, 2);
+  const missing = await callTool(url, "tickets_get", { id: "T-BASE-042" });
+  assert.ok(missing.error);
+
+  // Files added behind the server's back show up once the watcher reports them.
+  const pendingDir = path.join(tempRoot, "tickets", "pending");
+  fs.writeFileSync(
+    path.join(pendingDir, "2026-01-03__T-BASE-043__added-ticket.md"),
+    fs
+      .readFileSync(path.join(pendingDir, "2026-01-01__T-BASE-001__fixture-ticket.md"), "utf8")
+      .replace("id: T-BASE-001", "id: T-BASE-043"),
+    "utf8",
+  );
+  let added = await callTool(url, "tickets_list", {});
+  for (let attempt = 0; attempt < 50 && added.tickets.length < 3; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    added = await callTool(url, "tickets_list", {});
+  }
+  assert.equal(added.tickets.length, 3);
+});
+
+test("ticket MCP git auto-commit", async (t) => {
+  const { url, tempRoot, git } = await startRepoServer(t, { git: true, server: { gitCommit: true } });
+
+  // Unrelated work in progress must stay out of ticket commits.
+  fs.writeFileSync(path.join(tempRoot, "notes.txt"), "scratch\n", "utf8");
+  git("add", "notes.txt");
+
+  const updated = await callTool(url, "tickets_update", {
+    id: "T-BASE-001",
+    patch: { epic: "qa" },
+  });
+  assert.ok(updated.ok);
+  assert.equal(git("log", "-1", "--format=%s"), "tickets: T-BASE-001 updated");
+  assert.deepEqual(git("show", "--name-status", "--format=", "HEAD").split("\n"), [
+    "A\ttickets/INDEX.md",
+    "M\ttickets/pending/2026-01-01__T-BASE-001__fixture-ticket.md",
+  ]);
+
+  const claimed = await callTool(url, "tickets_claim", {
+    id: "T-BASE-001",
+    actor: "worker-ai:git",
+  });
+  assert.ok(claimed.ok);
+  assert.equal(git("log", "-1", "--format=%s"), "tickets: T-BASE-001 pending→in_progress by worker-ai:git");
+  const moveStatus = git("show", "--name-status", "-M", "--format=", "HEAD").split("\n");
+  assert.ok(
+    moveStatus.some((line) =>
+      /^R\d+\ttickets\/pending\/2026-01-01__T-BASE-001__fixture-ticket\.md\ttickets\/in_progress\//.test(line),
+    ),
+    moveStatus.join("\n"),
+  );
+
+  const logged = await callTool(url, "tickets_append_worklog", {
+    id: "T-BASE-001",
+    entry: { actor: "worker-ai:git", kind: "note", summary: "Looked around" },
+  });
+  assert.ok(logged.ok);
+  assert.equal(git("log", "-1", "--format=%s"), "tickets: T-BASE-001 work log entry by worker-ai:git");
+  assert.equal(git("rev-list", "--count", "HEAD"), "4");
+
+  // The unrelated staged file is still staged and uncommitted.
+  assert.equal(git("diff", "--cached", "--name-only"), "notes.txt");
+});
+
+test("ticket MCP ticket history", async (t) => {
+  const { url, git } = await startRepoServer(t, { git: true, server: { gitCommit: true } });
+  const seed = git("rev-parse", "HEAD");
+
+  const updated = await callTool(url, "tickets_update", {
+    id: "T-BASE-001",
+    patch: { requirements: ["Must show up in history."] },
+    work_log_entry: { actor: "human:pm", kind: "note", summary: "Tightened requirements" },
+  });
+  assert.ok(updated.ok);
+  const claimed = await callTool(url, "tickets_claim", { id: "T-BASE-001", actor: "worker-ai:h" });
+  assert.ok(claimed.ok);
+
+  // A body edit committed by hand.
+  fs.appendFileSync(claimed.path, "Started on the parser.\n", "utf8");
+  git("commit", "--quiet", "-am", "notes");
+
+  const history = await callTool(url, "tickets_history", { id: "T-BASE-001" });
+  assert.equal(history.id, "T-BASE-001");
+  assert.deepEqual(
+    history.commits.map((entry: any) => entry.subject),
+    [
+      "notes",
+      "tickets: T-BASE-001 pending→in_progress by worker-ai:h",
+      "tickets: T-BASE-001 updated by human:pm",
+      "seed",
+    ],
+  );
+
+  const [notes, claim, update, created] = history.commits;
+  assert.deepEqual(notes.frontmatter_changes, {});
+  assert.deepEqual(notes.body, {
+    lines_added: 1,
+    lines_removed: 0,
+    sections_changed: ["Implementation Notes"],
+  });
+
+  assert.equal(claim.renamed_from, "tickets/pending/2026-01-01__T-BASE-001__fixture-ticket.md");
+  assert.equal(claim.path, "tickets/in_progress/2026-01-01__T-BASE-001__fixture-ticket.md");
+  assert.deepEqual(claim.frontmatter_changes.status, { before: "pending", after: "in_progress" });
+  assert.deepEqual(claim.frontmatter_changes.claimed_by, { before: null, after: "worker-ai:h" });
+  assert.equal(claim.frontmatter_changes.work_log.appended[0].kind, "claim");
+
+  assert.deepEqual(update.frontmatter_changes.requirements, {
+    before: ["Must be discoverable via tickets_list."],
+    after: ["Must show up in history."],
+  });
+  assert.equal(created.created, true);
+
+  const limited = await callTool(url, "tickets_history", { id: "T-BASE-001", limit: 1 });
+  assert.equal(limited.total, 4);
+  assert.equal(limited.commits.length, 1);
+
+  const original = await callTool(url, "tickets_history", { id: "T-BASE-001", at: seed });
+  assert.equal(original.commit, seed);
+  assert.equal(original.frontmatter.status, "pending");
+  assert.deepEqual(original.frontmatter.requirements, ["Must be discoverable via tickets_list."]);
+
+  const beforeAnything = await callTool(url, "tickets_history", {
+    id: "T-BASE-001",
+    at: "2000-01-01T00:00:00Z",
+  });
+  assert.ok(beforeAnything.error);
+  const current = await callTool(url, "tickets_history", {
+    id: "T-BASE-001",
+    at: new Date(Date.now() + 60_000).toISOString(),
+  });
+  assert.equal(current.subject, "notes");
+  const today = await callTool(url, "tickets_history", {
+    id: "T-BASE-001",
+    at: new Date().toISOString().slice(0, 10),
+  });
+  assert.equal(today.subject, "notes");
+});
+
+test("ticket MCP operation journal and undo", async (t) => {
+  const { url, tempRoot } = await startRepoServer(t);
+
+  const pendingDir = path.join(tempRoot, "tickets", "pending");
+  const fixturePath = path.join(pendingDir, "2026-01-01__T-BASE-001__fixture-ticket.md");
+  const seedPath = path.join(pendingDir, "2026-01-02__T-BASE-042__seed-ticket.md");
+  const fixtureRaw = fs.readFileSync(fixturePath, "utf8");
+  const seedRaw = fs.readFileSync(seedPath, "utf8");
+
+  // A bad patch, undone by actor.
+  const clobbered = await callTool(url, "tickets_update", {
+    id: "T-BASE-001",
+    patch: { requirements: ["Oops."] },
+    work_log_entry: { actor: "worker-ai:oops", kind: "change", summary: "Rewrote requirements" },
+  });
+  assert.ok(clobbered.operation_id);
+  const listed = await callTool(url, "tickets_operations", { actor: "worker-ai:oops" });
+  assert.equal(listed.operations[0].id, clobbered.operation_id);
+  assert.equal(listed.operations[0].tool, "tickets.update");
+
+  const undone = await callTool(url, "tickets_undo", { actor: "worker-ai:oops" });
+  assert.equal(undone.undone, clobbered.operation_id);
+  assert.equal(fs.readFileSync(fixturePath, "utf8"), fixtureRaw);
+  const again = await callTool(url, "tickets_undo", { operation_id: clobbered.operation_id });
+  assert.match(again.error, /already undone/);
+
+  // A wrong move, undone by id.
+  const moved = await callTool(url, "tickets_move", { id: "T-BASE-042", to_status: "archived" });
+  assert.ok(moved.ok);
+  await callTool(url, "tickets_undo", { operation_id: moved.operation_id });
+  assert.equal(fs.readFileSync(seedPath, "utf8"), seedRaw);
+  assert.equal(fs.existsSync(moved.path), false);
+
+  // Refused once someone else touched the ticket, unless forced.
+  const claimed = await callTool(url, "tickets_claim", { id: "T-BASE-001", actor: "worker-ai:a" });
+  await callTool(url, "tickets_append_worklog", {
+    id: "T-BASE-001",
+    entry: { actor: "worker-ai:b", kind: "note", summary: "Picked up the thread" },
+  });
+  const refused = await callTool(url, "tickets_undo", { operation_id: claimed.operation_id });
+  assert.match(refused.error, /changed since/);
+  assert.equal(refused.conflicts[0].path, claimed.path);
+  assert.ok(fs.existsSync(claimed.path));
+
+  const forced = await callTool(url, "tickets_undo", {
+    operation_id: claimed.operation_id,
+    force: true,
+    actor: "human:lead",
+  });
+  assert.equal(forced.forced, true);
+  assert.equal(fs.readFileSync(fixturePath, "utf8"), fixtureRaw);
+  assert.equal(fs.existsSync(claimed.path), false);
+
+  const history = await callTool(url, "tickets_operations", { id: "T-BASE-001", limit: 2 });
+  assert.deepEqual(
+    history.operations.map((op: any) => [op.tool, op.undo_of]),
+    [
+      ["tickets.undo", claimed.operation_id],
+      ["tickets.append_worklog", null],
+    ],
+  );
+});
+
+test("ticket MCP in-memory store", async (t) => {
+  // A virtual root: nothing may be written under it.
+  const virtualRoot = path.join(os.tmpdir(), `ticket-mcp-memory-${process.pid}`);
+  const { startServer, createMemoryTicketStore } = await import("../src/server");
+  const store = createMemoryTicketStore(path.join(virtualRoot, "tickets"), {
+    ".prompts/triage.md": "---\ndescription: Triage a ticket\n---\nTriage {{id}} now.\n",
+  });
+  const { server, url } = await startServer({
+    host: "127.0.0.1",
+    port: 0,
+    strict: true,
+    store,
+  });
+  t.after(() => server.close());
+
+  const created = await callTool(url, "tickets_create", {
+    id: "T-MEM-1",
+    title: "Memory Ticket",
+    area: "tooling",
+    intent: "Exercise the in-memory store.",
+    requirements: ["Lives in memory."],
+    human_testing_steps: ["Run the tests."],
+    constraints: ["No disk writes."],
+    key_files: ["src/memory_store.ts"],
+  });
+  assert.ok(created.ok);
+  assert.ok(created.path.startsWith(path.join(virtualRoot, "tickets", "pending")));
+
+  const claimed = await callTool(url, "tickets_claim", { id: "T-MEM-1", actor: "worker-ai:mem" });
+  assert.ok(claimed.ok);
+  const listed = await callTool(url, "tickets_list", { status: "in_progress" });
+  assert.deepEqual(listed.tickets.map((ticket: any) => ticket.id), ["T-MEM-1"]);
+  assert.ok(store.read(path.join(virtualRoot, "tickets", "INDEX.md"))?.includes("T-MEM-1"));
+
+  const undone = await callTool(url, "tickets_undo", { actor: "worker-ai:mem" });
+  assert.ok(undone.ok);
+  const restored = await callTool(url, "tickets_get", { id: "T-MEM-1" });
+  assert.equal(restored.frontmatter.status, "pending");
+  assert.equal(restored.path, created.path);
+
+  const prompts = (await rpc(url, "prompts/list", {})) as any;
+  assert.ok(prompts.prompts.some((prompt: any) => prompt.name === "triage"));
+
+  const history = await callTool(url, "tickets_history", { id: "T-MEM-1" });
+  assert.match(history.error, /markdown store/);
+
+  assert.equal(fs.existsSync(virtualRoot), false);
+});
+
+test("ticket MCP multiple projects", async (t) => {
+  const { tempRoot: alphaRoot } = createFixtureRepo(t);
+  const { tempRoot: betaRoot } = createFixtureRepo(t, {
+    fixtures: false,
+    files: { ".prompts/beta_triage.md": "---\ndescription: Beta triage\n---\nTriage {{id}} in beta.\n" },
+  });
+
+  const { startServer } = await import("../src/server");
+  const { server, url } = await startServer({
+    host: "127.0.0.1",
+    port: 0,
+    strict: true,
+    projects: [
+      { name: "alpha", repoRoot: alphaRoot },
+      { name: "beta", repoRoot: betaRoot },
+    ],
+  });
+  t.after(() => server.close());
+
+  const projects = await callTool(url, "tickets_projects", {});
+  assert.equal(projects.default, "alpha");
+  assert.deepEqual(
+    projects.projects.map((project: any) => [project.name, project.tickets]),
+    [["alpha", 3], ["beta", 0]],
+  );
+
+  const created = await callTool(url, "tickets_create", {
+    project: "beta",
+    id: "T-BETA-1",
+    title: "Beta Ticket",
+    area: "tooling",
+    intent: "Live in the second project.",
+    requirements: ["Only beta sees it."],
+    human_testing_steps: ["List both projects."],
+    constraints: ["None."],
+    key_files: ["src/server.ts"],
+  });
+  assert.ok(created.ok);
+  assert.ok(created.path.startsWith(path.join(betaRoot, "tickets", "pending")));
+
+  const alphaList = await callTool(url, "tickets_list", {});
+  assert.equal(alphaList.tickets.length, 3);
+  const betaList = await callTool(url, "tickets_list", { project: "beta" });
+  assert.deepEqual(betaList.tickets.map((ticket: any) => ticket.id), ["T-BETA-1"]);
+  const wrongProject = await callTool(url, "tickets_get", { id: "T-BETA-1" });
+  assert.ok(wrongProject.error);
+
+  const unknown = await callTool(url, "tickets_list", { project: "gamma" });
+  assert.match(unknown.error, /Unknown project: gamma \(available: alpha, beta\)/);
+
+  const resources = (await rpc(url, "resources/list", {})) as any;
+  const uris = resources.resources.map((resource: any) => resource.uri);
+  assert.ok(uris.includes("ticket://T-BASE-042"));
+  assert.ok(uris.includes("ticket://beta/T-BETA-1"));
+  assert.ok(uris.includes("ticket://beta/INDEX.md"));
+  const read = (await rpc(url, "resources/read", { uri: "ticket://beta/T-BETA-1" })) as any;
+  assert.match(read.contents[0].text, /Beta Ticket/);
+  const templates = (await rpc(url, "resources/templates/list", {})) as any;
+  assert.deepEqual(
+    templates.resourceTemplates.map((template: any) => template.uriTemplate),
+    ["ticket://{id}", "ticket://{project}/{id}"],
+  );
+
+  // Other projects' prompts are listed under their prefix.
+  const prompts = (await rpc(url, "prompts/list", {})) as any;
+  const promptNames = prompts.prompts.map((prompt: any) => prompt.name);
+  assert.ok(promptNames.includes("pick_up_ticket"));
+  assert.ok(promptNames.includes("beta/pick_up_ticket"));
+  assert.ok(promptNames.includes("beta/beta_triage"));
+  assert.ok(!promptNames.includes("beta_triage"));
+  const betaPrompt = (await rpc(url, "prompts/get", {
+    name: "beta/beta_triage",
+    arguments: { ticket_id: "T-BETA-1" },
+  })) as any;
+  assert.equal(betaPrompt.messages[0].content.text, "Triage T-BETA-1 in beta.");
+
+  // A second server instance keeps its own projects, settings and cache.
+  const second = await startServer({
+    host: "127.0.0.1",
+    port: 0,
+    strict: false,
+    watch: false,
+    repoRoot: betaRoot,
+  });
+  t.after(() => second.server.close());
+
+  const secondProjects = await callTool(second.url, "tickets_projects", {});
+  assert.deepEqual(
+    secondProjects.projects.map((project: any) => [project.name, project.strict]),
+    [[path.basename(betaRoot), false]],
+  );
+  const secondList = await callTool(second.url, "tickets_list", {});
+  assert.deepEqual(secondList.tickets.map((ticket: any) => ticket.id), ["T-BETA-1"]);
+  const firstAgain = await callTool(url, "tickets_projects", {});
+  assert.deepEqual(
+    firstAgain.projects.map((project: any) => [project.name, project.strict]),
+    [["alpha", true], ["beta", true]],
+  );
+});
+
+test("ticket MCP project config file", async (t) => {
+  const configYaml = `statuses:
+  - { name: pending, folder: pending }
+  - { name: in_progress, folder: in_progress }
+  - { name: in_review, folder: review, label: Review }
+  - { name: done, folder: done, terminal: true }
+required_sections:
+  - "## Summary"
+  - "## Notes"
+defaults:
+  area: platform
+  constraints: ["Keep it small."]
+`;
+  const { url, tempRoot, ticketsDir } = await startRepoServer(t, {
+    files: { ".ticket-mcp.yaml": configYaml },
+  });
+  const configPath = path.join(ticketsDir, ".ticket-mcp.yaml");
+  const { createServer } = await import("../src/server");
+
+  const config = await callTool(url, "tickets_config", {});
+  assert.equal(config.source, configPath);
+  assert.deepEqual(
+    config.statuses.map((status: any) => [status.name, status.folder, status.label]),
+    [
+      ["pending", "pending", "Pending"],
+      ["in_progress", "in_progress", "In Progress"],
+      ["in_review", "review", "Review"],
+      ["done", "done", "Done"],
+    ],
+  );
+  assert.equal(config.defaults.status, "pending");
+
+  const created = await callTool(url, "tickets_create", {
+    id: "T-CFG-1",
+    title: "Configured Ticket",
+    intent: "Follow the project config.",
+    requirements: ["Use the config."],
+    human_testing_steps: ["Read the ticket."],
+    key_files: ["src/project_config.ts"],
+  });
+  assert.ok(created.ok, JSON.stringify(created));
+  const fresh = await callTool(url, "tickets_get", { id: "T-CFG-1" });
+  assert.equal(fresh.frontmatter.area, "platform");
+  assert.deepEqual(fresh.frontmatter.constraints, ["Keep it small."]);
+  assert.match(fresh.body, /## Summary\n\n## Notes/);
+  assert.deepEqual(fresh.issues, []);
+
+  const moved = await callTool(url, "tickets_move", { id: "T-CFG-1", to_status: "in_review" });
+  assert.ok(moved.ok);
+  assert.equal(path.basename(path.dirname(moved.path)), "review");
+  const reviewed = await callTool(url, "tickets_list", { status: "in_review" });
+  assert.deepEqual(reviewed.tickets.map((ticket: any) => ticket.id), ["T-CFG-1"]);
+
+  const blocked = await callTool(url, "tickets_move", { id: "T-CFG-1", to_status: "blocked" });
+  assert.match(blocked.error, /Valid statuses: pending, in_progress, in_review, done/);
+
+  const index = fs.readFileSync(path.join(tempRoot, "tickets", "INDEX.md"), "utf8");
+  assert.ok(index.includes("## Review (1)"));
+
+  // A broken edit is reported by every tool until it is fixed.
+  fs.writeFileSync(configPath, "statuses:\n  - { name: In Review }\n", "utf8");
+  const broken = await callTool(url, "tickets_list", {});
+  assert.equal(broken.error, "Invalid tickets/.ticket-mcp.yaml");
+  assert.ok(broken.issues.includes("config.statuses[0].folder: is required"));
+  const projects = await callTool(url, "tickets_projects", {});
+  assert.equal(projects.projects[0].tickets, 4);
+  assert.throws(() => createServer({ repoRoot: tempRoot, watch: false }), /Invalid tickets/);
+
+  fs.writeFileSync(configPath, configYaml, "utf8");
+  const fixed = await callTool(url, "tickets_list", { status: "in_review" });
+  assert.equal(fixed.tickets.length, 1);
+});
+
+test("ticket MCP custom fields", async (t) => {
+  const config = `fields:
+  - { name: priority, type: enum, values: [critical, high, medium, low], required: true }
+  - { name: estimate, type: number, min: 0, max: 40 }
+  - { name: due, type: date }
+  - { name: labels, type: string_list, values: [ui, api, docs] }
+  - { name: reviewer, type: actor }
+defaults:
+  priority: medium
+`;
+  const { url, store } = await startMemoryServer(t, {
+    fixtures: false,
+    files: { ".ticket-mcp.yaml": config },
+  });
+
+  const create = (id: string, extra: Record<string, unknown>) =>
+    callTool(url, "tickets_create", {
+      id,
+      title: `Ticket ${id}`,
+      area: "planning",
+      intent: "Exercise custom fields.",
+      requirements: ["Typed fields."],
+      human_testing_steps: ["List the tickets."],
+      constraints: ["None."],
+      key_files: ["src/project_config.ts"],
+      ...extra,
+    });
+
+  assert.ok((await create("T-F-1", { priority: "low", estimate: 8, labels: ["ui"] })).ok);
+  assert.ok((await create("T-F-2", { priority: "critical", estimate: 3, due: "2026-05-01" })).ok);
+  assert.ok((await create("T-F-3", { estimate: 13, labels: ["api", "docs"] })).ok);
+
+  const rejected = await create("T-F-4", {
+    priority: "urgent",
+    estimate: -1,
+    due: "soon",
+    labels: ["infra"],
+    reviewer: "bob",
+  });
+  assert.equal(rejected.error, "Validation failed");
+  assert.deepEqual(rejected.issues, [
+    "priority must be one of critical, high, medium, low",
+    "estimate must be at least 0",
+    "due must be a date (YYYY-MM-DD or ISO timestamp)",
+    "labels has unknown values infra; allowed: ui, api, docs",
+    "reviewer must be an actor id like worker-ai:alice",
+  ]);
+
+  const defaulted = await callTool(url, "tickets_get", { id: "T-F-3" });
+  assert.equal(defaulted.frontmatter.priority, "medium");
+
+  // Custom fields follow the built-in ones in config order.
+  const raw = store.read(defaulted.path)!;
+  const keys = raw
+    .split("\n")
+    .filter((line) => /^[a-z_]+:/.test(line))
+    .map((line) => line.split(":")[0]);
+  assert.deepEqual(keys.slice(keys.indexOf("review_notes")), [
+    "review_notes",
+    "priority",
+    "estimate",
+    "labels",
+  ]);
+
+  const badUpdate = await callTool(url, "tickets_update", { id: "T-F-1", patch: { estimate: 99 } });
+  assert.deepEqual(badUpdate.issues, ["estimate must be at most 40"]);
+  const updated = await callTool(url, "tickets_update", { id: "T-F-1", patch: { priority: "high" } });
+  assert.ok(updated.ok);
+
+  const byPriority = await callTool(url, "tickets_list", { sort: "priority" });
+  assert.deepEqual(byPriority.tickets.map((ticket: any) => ticket.id), ["T-F-2", "T-F-1", "T-F-3"]);
+  assert.deepEqual(byPriority.tickets[0].fields, {
+    priority: "critical",
+    estimate: 3,
+    due: "2026-05-01",
+  });
+
+  const byEstimate = await callTool(url, "tickets_list", { sort: ["-estimate"] });
+  assert.deepEqual(byEstimate.tickets.map((ticket: any) => ticket.id), ["T-F-3", "T-F-1", "T-F-2"]);
+
+  const small = await callTool(url, "tickets_list", { fields: { estimate: { max: 8 } }, sort: "id" });
+  assert.deepEqual(small.tickets.map((ticket: any) => ticket.id), ["T-F-1", "T-F-2"]);
+  const docs = await callTool(url, "tickets_list", { fields: { labels: ["docs", "ui"] }, sort: "id" });
+  assert.deepEqual(docs.tickets.map((ticket: any) => ticket.id), ["T-F-1", "T-F-3"]);
+  const urgent = await callTool(url, "tickets_list", { fields: { priority: ["critical", "high"] } });
+  assert.equal(urgent.tickets.length, 2);
+
+  const unknown = await callTool(url, "tickets_list", { sort: "severity" });
+  assert.equal(unknown.error, "Unknown field: severity");
+});
+
+test("ticket MCP transition rules", async (t) => {
+  const { url, store } = await startMemoryServer(t);
+
+  const skipped = await callTool(url, "tickets_move", { id: "T-BASE-042", to_status: "done" });
+  assert.equal(skipped.error, "Transition not allowed: pending → done");
+  assert.deepEqual(skipped.allowed, ["in_progress", "blocked", "archived"]);
+
+  const pending = await callTool(url, "tickets_transitions", { id: "T-BASE-001" });
+  assert.equal(pending.status, "pending");
+  assert.equal(pending.restricted, true);
+  assert.deepEqual(pending.transitions[0], {
+    to: "in_progress",
+    guards: ["claimed"],
+    roles: null,
+    allowed: false,
+    failed_guards: [{ guard: "claimed", message: "claimed_by must be set" }],
+  });
+
+  const unclaimed = await callTool(url, "tickets_move", { id: "T-BASE-001", to_status: "in_progress" });
+  assert.deepEqual(unclaimed.failed_guards, ["claimed"]);
+
+  const claimed = await callTool(url, "tickets_claim", { id: "T-BASE-001", actor: "worker-ai:rules" });
+  assert.ok(claimed.ok);
+
+  const early = await callTool(url, "tickets_move", { id: "T-BASE-001", to_status: "awaiting_human_test" });
+  assert.equal(early.error, "Guard failed for in_progress → awaiting_human_test");
+  assert.deepEqual(early.failed_guards, ["handoff", "implementation_notes"]);
+  assert.deepEqual(early.issues, [
+    "handoff: work_log needs a handoff entry since the ticket was last claimed",
+    'implementation_notes: Section "## Implementation Notes" must not be empty',
+  ]);
+
+  store.write(
+    claimed.path,
+    store.read(claimed.path)!.replace(
+      "## Implementation Notes\n",
+      "## Implementation Notes\n\nAdded the transition matrix.\n",
+    ),
+  );
+  const handedOff = await callTool(url, "tickets_move", {
+    id: "T-BASE-001",
+    to_status: "awaiting_human_test",
+    work_log_entry: { actor: "worker-ai:rules", kind: "handoff", summary: "Ready for testing" },
+  });
+  assert.ok(handedOff.ok, JSON.stringify(handedOff));
+
+  const review = await callTool(url, "tickets_transitions", { id: "T-BASE-001", actor: "human:qa" });
+  assert.deepEqual(
+    review.transitions.map((transition: any) => [transition.to, transition.allowed]),
+    [["in_progress", true], ["done", true], ["archived", true]],
+  );
+
+  // An unknown status is no way around the matrix.
+  const seed = (await callTool(url, "tickets_get", { id: "T-BASE-042" })).path;
+  store.write(seed, store.read(seed)!.replace("status: pending", "status: bogus"));
+  const bogusDone = await callTool(url, "tickets_move", {
+    id: "T-BASE-042",
+    to_status: "done",
+    actor: "worker-ai:rules",
+  });
+  assert.equal(
+    bogusDone.error,
+    "worker-ai:rules (agent) may not move bogus → done; allowed roles: human",
+  );
+  const bogusHandoff = await callTool(url, "tickets_move", {
+    id: "T-BASE-042",
+    to_status: "awaiting_human_test",
+  });
+  assert.deepEqual(bogusHandoff.failed_guards, ["handoff", "implementation_notes"]);
+  const repaired = await callTool(url, "tickets_move", { id: "T-BASE-042", to_status: "pending" });
+  assert.ok(repaired.ok, JSON.stringify(repaired));
+});
+
+test("ticket MCP actor roles", async (t) => {
+  const { url, store } = await startMemoryServer(t);
+
+  const reviewNotes = await callTool(url, "tickets_update", {
+    id: "T-BASE-001",
+    actor: "worker-ai:roles",
+    patch: { review_notes: "Looks good" },
+  });
+  assert.equal(
+    reviewNotes.error,
+    "worker-ai:roles (agent) may not edit review_notes; allowed roles: human",
+  );
+  assert.deepEqual(reviewNotes.required_roles, ["human"]);
+
+  const mismatch = await callTool(url, "tickets_update", {
+    id: "T-BASE-001",
+    actor: "human:alice",
+    patch: { area: "tools" },
+    work_log_entry: { actor: "worker-ai:roles", kind: "note", summary: "Sneaky" },
+  });
+  assert.equal(mismatch.error, "actor (human:alice) and work_log_entry.actor (worker-ai:roles) differ");
+
+  // Saving unchanged fields is not an edit.
+  const before = await callTool(url, "tickets_get", { id: "T-BASE-001" });
+  const noop = await callTool(url, "tickets_update", {
+    id: "T-BASE-001",
+    actor: "human:ui",
+    patch: { area: before.frontmatter.area, epic: before.frontmatter.epic },
+  });
+  assert.ok(noop.ok, JSON.stringify(noop));
+  assert.equal(noop.unchanged, true);
+  assert.equal(noop.revision, before.revision);
+  const after = await callTool(url, "tickets_get", { id: "T-BASE-001" });
+  assert.equal(after.frontmatter.updated_at, before.frontmatter.updated_at);
+  assert.equal(after.frontmatter.work_log.length, before.frontmatter.work_log.length);
+  const operations = await callTool(url, "tickets_operations", {});
+  assert.equal(operations.operations.length, 0);
+
+  const claimed = await callTool(url, "tickets_claim", { id: "T-BASE-001", actor: "worker-ai:roles" });
+  assert.ok(claimed.ok);
+  store.write(
+    claimed.path,
+    store.read(claimed.path)!.replace(
+      "## Implementation Notes\n",
+      "## Implementation Notes\n\nAdded actor roles.\n",
+    ),
+  );
+  const handedOff = await callTool(url, "tickets_move", {
+    id: "T-BASE-001",
+    to_status: "awaiting_human_test",
+    work_log_entry: { actor: "worker-ai:roles", kind: "handoff", summary: "Ready for testing" },
+  });
+  assert.ok(handedOff.ok, JSON.stringify(handedOff));
+
+  const agentDone = await callTool(url, "tickets_move", {
+    id: "T-BASE-001",
+    to_status: "done",
+    actor: "worker-ai:roles",
+  });
+  assert.equal(
+    agentDone.error,
+    "worker-ai:roles (agent) may not move awaiting_human_test → done; allowed roles: human",
+  );
+
+  const transitions = await callTool(url, "tickets_transitions", { id: "T-BASE-001" });
+  assert.equal(transitions.role, "agent");
+  assert.deepEqual(transitions.transitions[1].roles, ["human"]);
+  assert.equal(transitions.transitions[1].allowed, false);
+
+  const notes = await callTool(url, "tickets_update", {
+    id: "T-BASE-001",
+    actor: "human:alice",
+    patch: { review_notes: "Verified locally" },
+  });
+  assert.ok(notes.ok, JSON.stringify(notes));
+  const done = await callTool(url, "tickets_move", {
+    id: "T-BASE-001",
+    to_status: "done",
+    actor: "human:alice",
+  });
+  assert.ok(done.ok, JSON.stringify(done));
+
+  const ticket = await callTool(url, "tickets_get", { id: "T-BASE-001" });
+  assert.deepEqual(
+    ticket.frontmatter.work_log.slice(-2).map((entry: any) => [entry.actor, entry.kind, entry.summary]),
+    [
+      ["human:alice", "note", "Updated review_notes"],
+      ["human:alice", "note", "Moved awaiting_human_test → done"],
+    ],
+  );
+
+  // Every other way into done needs the same role.
+  const patched = await callTool(url, "tickets_update", {
+    id: "T-BASE-042",
+    actor: "worker-ai:roles",
+    patch: { status: "done" },
+  });
+  assert.equal(patched.error, "status cannot be patched; use tickets.move");
+
+  const created = await callTool(url, "tickets_create", {
+    id: "T-ROLE-1",
+    title: "Born done",
+    area: "tools",
+    intent: "Skip the review.",
+    requirements: ["None."],
+    human_testing_steps: ["None."],
+    constraints: ["None."],
+    key_files: ["src/server.ts"],
+    status: "done",
+    actor: "worker-ai:roles",
+  });
+  assert.equal(
+    created.error,
+    "worker-ai:roles (agent) may not create tickets in done; allowed roles: human",
+  );
+
+  const reopened = await callTool(url, "tickets_move", {
+    id: "T-BASE-001",
+    to_status: "in_progress",
+    actor: "human:alice",
+  });
+  assert.ok(reopened.ok, JSON.stringify(reopened));
+  const undone = await callTool(url, "tickets_undo", {
+    operation_id: reopened.operation_id,
+    actor: "worker-ai:roles",
+  });
+  assert.equal(
+    undone.error,
+    "worker-ai:roles (agent) may not undo T-BASE-001 back to done; allowed roles: human",
+  );
+  const humanUndo = await callTool(url, "tickets_undo", {
+    operation_id: reopened.operation_id,
+    actor: "human:alice",
+  });
+  assert.ok(humanUndo.ok, JSON.stringify(humanUndo));
+
+  // Reverting a human-only field needs the human role too.
+  const renoted = await callTool(url, "tickets_update", {
+    id: "T-BASE-001",
+    actor: "human:alice",
+    patch: { review_notes: "Needs another pass" },
+  });
+  assert.ok(renoted.ok, JSON.stringify(renoted));
+  const agentRevert = await callTool(url, "tickets_undo", {
+    operation_id: renoted.operation_id,
+    actor: "worker-ai:roles",
+  });
+  assert.equal(
+    agentRevert.error,
+    "worker-ai:roles (agent) may not edit review_notes; allowed roles: human",
+  );
+});
+
+test("ticket MCP dependency graph", async (t) => {
+  const { url, store } = await startMemoryServer(t);
+
+  const base = {
+    area: "tools",
+    intent: "Exercise depends_on checks.",
+    requirements: ["Resolve dependencies."],
+    human_testing_steps: ["Run the graph tool."],
+    constraints: ["None."],
+    key_files: ["src/dependency_graph.ts"],
+    created_at: "2026-02-01T00:00:00Z",
+  };
+  for (const [id, dependsOn] of [
+    ["T-DEP-1", []],
+    ["T-DEP-2", ["T-DEP-1"]],
+    ["T-DEP-3", ["T-DEP-2"]],
+  ] as const) {
+    const created = await callTool(url, "tickets_create", {
+      ...base,
+      id,
+      title: `Dependency ${id}`,
+      epic: "deps",
+      depends_on: dependsOn,
+    });
+    assert.ok(created.ok, JSON.stringify(created));
+  }
+
+  const unknown = await callTool(url, "tickets_create", {
+    ...base,
+    id: "T-DEP-4",
+    title: "Unknown dependency",
+    depends_on: ["T-NOPE"],
+  });
+  assert.equal(unknown.error, "Validation failed");
+  assert.deepEqual(unknown.issues, ["depends_on references unknown tickets: T-NOPE"]);
+
+  const earlyDone = await callTool(url, "tickets_create", {
+    ...base,
+    id: "T-DEP-5",
+    title: "Done too early",
+    status: "done",
+    actor: "human:qa",
+    depends_on: ["T-DEP-3"],
+  });
+  assert.deepEqual(earlyDone.issues, ["Finished ticket depends on unfinished tickets: T-DEP-3 (pending)"]);
+
+  const cyclic = await callTool(url, "tickets_update", {
+    id: "T-DEP-1",
+    patch: { depends_on: ["T-DEP-3"] },
+  });
+  assert.deepEqual(cyclic.issues, ["depends_on cycle: T-DEP-1 → T-DEP-3 → T-DEP-2 → T-DEP-1"]);
+
+  const scoped = await callTool(url, "tickets_graph", { id: "T-DEP-2" });
+  assert.deepEqual(
+    scoped.nodes.map((node: any) => node.id),
+    ["T-DEP-1", "T-DEP-2", "T-DEP-3"],
+  );
+  assert.deepEqual(scoped.edges, [
+    { from: "T-DEP-2", to: "T-DEP-1" },
+    { from: "T-DEP-3", to: "T-DEP-2" },
+  ]);
+  assert.ok(scoped.mermaid.startsWith("flowchart TD\n"));
+  assert.ok(scoped.mermaid.includes('t0["T-DEP-1: '));
+  assert.ok(scoped.mermaid.includes("t0 --> t1"));
+
+  const epic = await callTool(url, "tickets_graph", { epic: "none" });
+  assert.deepEqual(
+    epic.nodes.map((node: any) => node.id),
+    ["T-BASE-001", "T-BASE-042", "T-BASE-100"],
+  );
+  assert.deepEqual(epic.edges, []);
+
+  // Hand edits bypass the write checks; tickets.validate still reports them.
+  const first = (await callTool(url, "tickets_get", { id: "T-DEP-1" })).path;
+  store.write(first, store.read(first)!.replace("depends_on: []", "depends_on:\n  - T-DEP-3"));
+  const validated = await callTool(url, "tickets_validate", { id: "T-DEP-2" });
+  assert.deepEqual(validated.issues, ["depends_on cycle: T-DEP-2 → T-DEP-1 → T-DEP-3 → T-DEP-2"]);
+  const graph = await callTool(url, "tickets_graph", {});
+  assert.deepEqual(graph.cycles, [["T-DEP-1", "T-DEP-3", "T-DEP-2", "T-DEP-1"]]);
+});
+
+test("ticket MCP next ticket queue", async (t) => {
+  const { url, store } = await startMemoryServer(t);
+
+  const base = {
+    area: "tools",
+    epic: "queue",
+    intent: "Exercise the work queue.",
+    requirements: ["Pick the right ticket."],
+    human_testing_steps: ["Call tickets_next."],
+    constraints: ["None."],
+    key_files: ["src/server.ts"],
+  };
+  for (const [id, priority, createdAt, dependsOn] of [
+    ["T-Q-1", "low", "2026-03-02T00:00:00Z", []],
+    ["T-Q-3", "medium", "2026-03-03T00:00:00Z", []],
+    ["T-Q-2", "high", "2026-03-01T00:00:00Z", ["T-Q-3"]],
+    ["T-Q-4", "low", "2026-03-01T00:00:00Z", []],
+  ] as const) {
+    const created = await callTool(url, "tickets_create", {
+      ...base,
+      id,
+      title: `Queue ${id}`,
+      priority,
+      created_at: createdAt,
+      depends_on: dependsOn,
+    });
+    assert.ok(created.ok, JSON.stringify(created));
+  }
+
+  const peek = await callTool(url, "tickets_next", { actor: "worker-ai:queue", epic: "queue" });
+  assert.equal(peek.ticket.id, "T-Q-3");
+  assert.equal(peek.ready, 3);
+  assert.deepEqual(peek.blocked, [
+    { id: "T-Q-2", open_dependencies: [{ id: "T-Q-3", status: "pending" }] },
+  ]);
+
+  const early = await callTool(url, "tickets_claim", { id: "T-Q-2", actor: "worker-ai:queue" });
+  assert.equal(
+    early.error,
+    "Ticket has unfinished dependencies: T-Q-3 (pending); pass force: true to claim anyway",
+  );
+
+  const claimed = await callTool(url, "tickets_next", {
+    actor: "worker-ai:queue",
+    epic: "queue",
+    claim: true,
+  });
+  assert.ok(claimed.ok, JSON.stringify(claimed));
+  assert.equal(claimed.ticket.id, "T-Q-3");
+  assert.equal(claimed.ticket.status, "in_progress");
+
+  // Same priority: the older ticket comes first.
+  const after = await callTool(url, "tickets_next", { actor: "worker-ai:queue", epic: "queue" });
+  assert.equal(after.ticket.id, "T-Q-4");
+
+  const none = await callTool(url, "tickets_next", { actor: "worker-ai:queue", area: "nowhere" });
+  assert.equal(none.ticket, null);
+
+  // A candidate that cannot be claimed is reported rather than skipped silently.
+  const broken = await callTool(url, "tickets_create", {
+    ...base,
+    id: "T-Q-5",
+    title: "Queue T-Q-5",
+    area: "broken",
+  });
+  assert.ok(broken.ok, JSON.stringify(broken));
+  store.write(broken.path, store.read(broken.path)!.replace(/^intent:.*\n/m, ""));
+  const failed = await callTool(url, "tickets_next", {
+    actor: "worker-ai:queue",
+    area: "broken",
+    claim: true,
+  });
+  assert.equal(failed.error, "Validation failed");
+  assert.ok(failed.issues.includes("Missing required field: intent"), JSON.stringify(failed));
+
+  const forced = await callTool(url, "tickets_claim", {
+    id: "T-Q-2",
+    actor: "worker-ai:queue",
+    force: true,
+  });
+  assert.ok(forced.ok, JSON.stringify(forced));
+});
+
+test("ticket MCP custom claim statuses", async (t) => {
+  const { url } = await startMemoryServer(t, {
+    fixtures: false,
+    files: {
+      ".ticket-mcp.yaml": `statuses:
+  - { name: todo, folder: todo }
+  - { name: doing, folder: doing }
+  - { name: done, folder: done, terminal: true }
+defaults:
+  status: todo
+claim: { from: todo, to: doing }
+`,
+    },
+  });
+
+  const created = await callTool(url, "tickets_create", {
+    id: "T-TODO-1",
+    title: "Todo ticket",
+    area: "tools",
+    intent: "Claim from custom statuses.",
+    requirements: ["Use claim.from and claim.to."],
+    human_testing_steps: ["Call tickets_next."],
+    constraints: ["None."],
+    key_files: ["src/project_config.ts"],
+  });
+  assert.ok(created.ok, JSON.stringify(created));
+
+  const peek = await callTool(url, "tickets_next", { actor: "worker-ai:todo" });
+  assert.equal(peek.ticket.id, "T-TODO-1");
+
+  const claimed = await callTool(url, "tickets_next", { actor: "worker-ai:todo", claim: true });
+  assert.ok(claimed.ok, JSON.stringify(claimed));
+  assert.equal(claimed.ticket.status, "doing");
+  assert.equal(path.basename(path.dirname(claimed.path)), "doing");
+
+  const released = await callTool(url, "tickets_release", {
+    id: "T-TODO-1",
+    actor: "worker-ai:todo",
+    reason: "Blocked on review",
+  });
+  assert.ok(released.ok, JSON.stringify(released));
+  assert.equal(path.basename(path.dirname(released.path)), "todo");
+});
+
+test("ticket MCP claim leases", async (t) => {
+  const { url } = await startMemoryServer(t);
+
+  const lapsed = await callTool(url, "tickets_claim", {
+    id: "T-BASE-001",
+    actor: "worker-ai:crashed",
+    lease_minutes: 0,
+  });
+  assert.ok(lapsed.ok, JSON.stringify(lapsed));
+  const leased = await callTool(url, "tickets_claim", {
+    id: "T-BASE-042",
+    actor: "worker-ai:alive",
+    lease_minutes: 60,
+  });
+  assert.ok(leased.ok, JSON.stringify(leased));
+
+  const stale = await callTool(url, "tickets_list", { stale: true });
+  assert.deepEqual(
+    stale.tickets.map((ticket: any) => ticket.id),
+    ["T-BASE-001"],
+  );
+
+  const stolen = await callTool(url, "tickets_heartbeat", { id: "T-BASE-042", actor: "worker-ai:crashed" });
+  assert.equal(stolen.error, "Ticket is claimed by worker-ai:alive, not worker-ai:crashed");
+  const renewed = await callTool(url, "tickets_heartbeat", {
+    id: "T-BASE-042",
+    actor: "worker-ai:alive",
+    lease_minutes: 120,
+  });
+  assert.ok(renewed.ok, JSON.stringify(renewed));
+  assert.ok(Date.parse(renewed.lease_expires_at) > Date.now() + 90 * 60_000);
+
+  const swept = await callTool(url, "tickets_sweep", {});
+  assert.deepEqual(
+    swept.released.map((entry: any) => [entry.id, entry.claimed_by]),
+    [["T-BASE-001", "worker-ai:crashed"]],
+  );
+
+  const released = await callTool(url, "tickets_get", { id: "T-BASE-001" });
+  assert.equal(released.frontmatter.status, "pending");
+  assert.equal(released.frontmatter.claimed_by, null);
+  assert.equal(released.frontmatter.lease_expires_at, undefined);
+  const entry = released.frontmatter.work_log.at(-1);
+  assert.equal(entry.actor, "ticket-mcp:lease-sweep");
+  assert.equal(entry.kind, "handoff");
+  assert.match(entry.summary, /^Lease of worker-ai:crashed expired at .*; returned to pending$/);
+
+  const alive = await callTool(url, "tickets_get", { id: "T-BASE-042" });
+  assert.equal(alive.frontmatter.status, "in_progress");
+  assert.deepEqual((await callTool(url, "tickets_list", { stale: true })).tickets, []);
+
+  // The lease ends when the ticket leaves in_progress; a later claim without
+  // lease_minutes must not inherit it.
+  const relapsed = await callTool(url, "tickets_claim", {
+    id: "T-BASE-001",
+    actor: "worker-ai:crashed",
+    lease_minutes: 0,
+  });
+  assert.ok(relapsed.ok, JSON.stringify(relapsed));
+  const movedBack = await callTool(url, "tickets_move", { id: "T-BASE-001", to_status: "pending" });
+  assert.ok(movedBack.ok, JSON.stringify(movedBack));
+  const moved = await callTool(url, "tickets_get", { id: "T-BASE-001" });
+  assert.equal(moved.frontmatter.lease_expires_at, undefined);
+  const reclaimed = await callTool(url, "tickets_claim", { id: "T-BASE-001", actor: "worker-ai:next" });
+  assert.ok(reclaimed.ok, JSON.stringify(reclaimed));
+  assert.deepEqual((await callTool(url, "tickets_list", { stale: true })).tickets, []);
+
+  // Likewise across a handoff and a reviewer sending the ticket back.
+  await callTool(url, "tickets_heartbeat", { id: "T-BASE-001", actor: "worker-ai:next", lease_minutes: 0 });
+  const handedOff = await callTool(url, "tickets_handoff", {
+    id: "T-BASE-001",
+    actor: "worker-ai:next",
+    summary: "Ready for a look",
+  });
+  assert.ok(handedOff.ok, JSON.stringify(handedOff));
+  const reopened = await callTool(url, "tickets_move", {
+    id: "T-BASE-001",
+    to_status: "in_progress",
+    actor: "human:reviewer",
+  });
+  assert.ok(reopened.ok, JSON.stringify(reopened));
+  assert.deepEqual((await callTool(url, "tickets_sweep", {})).released, []);
+
+  // Heartbeats take part in optimistic concurrency like every other write.
+  const outdated = await callTool(url, "tickets_heartbeat", {
+    id: "T-BASE-042",
+    actor: "worker-ai:alive",
+    expected_revision: "0000",
+  });
+  assert.equal(outdated.error, "Revision conflict: ticket changed since it was read");
+
+  // The timer does the same without being asked.
+  const timed = await startMemoryServer(t, { server: { leaseSweepSeconds: 0.05 } });
+  await callTool(timed.url, "tickets_claim", {
+    id: "T-BASE-001",
+    actor: "worker-ai:crashed",
+    lease_minutes: 0,
+  });
+  let status = "";
+  for (let attempt = 0; attempt < 40 && status !== "pending"; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    status = (await callTool(timed.url, "tickets_get", { id: "T-BASE-001" })).frontmatter.status;
+  }
+  assert.equal(status, "pending");
+});
+
+test("ticket MCP release and reassign", async (t) => {
+  const { url } = await startMemoryServer(t);
+
+  const unclaimed = await callTool(url, "tickets_release", {
+    id: "T-BASE-001",
+    actor: "worker-ai:alice",
+    reason: "Nothing to do",
+  });
+  assert.equal(unclaimed.error, "Ticket is not claimed");
+
+  const claimed = await callTool(url, "tickets_claim", {
+    id: "T-BASE-001",
+    actor: "worker-ai:alice",
+    lease_minutes: 30,
+  });
+  assert.ok(claimed.ok);
+
+  const notMine = await callTool(url, "tickets_reassign", {
+    id: "T-BASE-001",
+    actor: "worker-ai:bob",
+    to_actor: "worker-ai:bob",
+  });
+  assert.equal(
+    notMine.error,
+    "Ticket is claimed by worker-ai:alice, not worker-ai:bob; pass force: true to reassign anyway",
+  );
+
+  const reassigned = await callTool(url, "tickets_reassign", {
+    id: "T-BASE-001",
+    actor: "worker-ai:alice",
+    to_actor: "worker-ai:bob",
+    reason: "Out of time",
+  });
+  assert.ok(reassigned.ok, JSON.stringify(reassigned));
+  let ticket = await callTool(url, "tickets_get", { id: "T-BASE-001" });
+  assert.equal(ticket.frontmatter.status, "in_progress");
+  assert.equal(ticket.frontmatter.claimed_by, "worker-ai:bob");
+  assert.deepEqual(
+    ticket.frontmatter.work_log.slice(-2).map((entry: any) => [entry.actor, entry.kind, entry.summary]),
+    [
+      ["worker-ai:alice", "handoff", "Reassigned from worker-ai:alice to worker-ai:bob: Out of time"],
+      ["worker-ai:bob", "claim", "Took over from worker-ai:alice"],
+    ],
+  );
+
+  const blank = await callTool(url, "tickets_release", {
+    id: "T-BASE-001",
+    actor: "worker-ai:bob",
+    reason: "   ",
+  });
+  assert.equal(blank.error, "Invalid arguments for tickets_release");
+
+  const refused = await callTool(url, "tickets_release", {
+    id: "T-BASE-001",
+    actor: "worker-ai:alice",
+    reason: "Changed my mind",
+  });
+  assert.equal(
+    refused.error,
+    "Ticket is claimed by worker-ai:bob, not worker-ai:alice; pass force: true to release anyway",
+  );
+
+  const released = await callTool(url, "tickets_release", {
+    id: "T-BASE-001",
+    actor: "human:lead",
+    reason: "Reprioritised",
+    force: true,
+  });
+  assert.ok(released.ok, JSON.stringify(released));
+  assert.equal(released.released, "worker-ai:bob");
+  ticket = await callTool(url, "tickets_get", { id: "T-BASE-001" });
+  assert.equal(ticket.frontmatter.status, "pending");
+  assert.ok(ticket.path.includes(`${path.sep}pending${path.sep}`));
+  assert.equal(ticket.frontmatter.claimed_by, null);
+  assert.equal(ticket.frontmatter.claimed_at, null);
+  assert.equal(ticket.frontmatter.lease_expires_at, undefined);
+  const entry = ticket.frontmatter.work_log.at(-1);
+  assert.deepEqual(
+    [entry.actor, entry.kind, entry.summary],
+    ["human:lead", "handoff", "Released worker-ai:bob's claim: Reprioritised"],
+  );
+});
+
+test("ticket MCP handoff", async (t) => {
+  const { url, store } = await startMemoryServer(t);
+
+  const claimed = await callTool(url, "tickets_claim", { id: "T-BASE-001", actor: "worker-ai:hand" });
+  assert.ok(claimed.ok);
+
+  const stranger = await callTool(url, "tickets_handoff", {
+    id: "T-BASE-001",
+    actor: "worker-ai:other",
+    summary: "Not my ticket",
+  });
+  assert.equal(
+    stranger.error,
+    "Ticket is claimed by worker-ai:hand, not worker-ai:other; pass force: true to hand off anyway",
+  );
+
+  const handedOff = await callTool(url, "tickets_handoff", {
+    id: "T-BASE-001",
+    actor: "worker-ai:hand",
+    summary: "Added the handoff tool.",
+    touched_files: ["src/server.ts"],
+    commands: ["npm test"],
+    testing_notes: ["Try a ticket without testing steps."],
+  });
+  assert.ok(handedOff.ok, JSON.stringify(handedOff));
+  assert.ok(handedOff.path.includes(`${path.sep}awaiting_human_test${path.sep}`));
+
+  const ticket = await callTool(url, "tickets_get", { id: "T-BASE-001" });
+  assert.equal(ticket.frontmatter.status, "awaiting_human_test");
+  const entry = ticket.frontmatter.work_log.at(-1);
+  assert.equal(entry.kind, "handoff");
+  assert.equal(entry.summary, "Added the handoff tool.");
+  assert.deepEqual(entry.details, {
+    touched_files: ["src/server.ts"],
+    commands: ["npm test"],
+    notes: ["Try a ticket without testing steps."],
+  });
+  assert.ok(
+    ticket.body.includes(
+      "## Human Testing Steps\n\n1. Run integration tests and ensure fixture is indexed.\n\n## Key Files",
+    ),
+  );
+  assert.ok(
+    ticket.body.endsWith(
+      [
+        "## Implementation Notes",
+        "",
+        "Added the handoff tool.",
+        "",
+        "Touched files:",
+        "- `src/server.ts`",
+        "",
+        "Commands run:",
+        "- `npm test`",
+        "",
+        "Testing notes:",
+        "- Try a ticket without testing steps.",
+        "",
+      ].join("\n"),
+    ),
+  );
+
+  // claimed_by survives the handoff, but the claim is over.
+  for (const tool of ["tickets_reassign", "tickets_release"]) {
+    const late = await callTool(url, tool, {
+      id: "T-BASE-001",
+      actor: "worker-ai:hand",
+      to_actor: "worker-ai:other",
+      reason: "Too late",
+    });
+    assert.match(
+      late.error,
+      /^Ticket must be in_progress to (reassign|release) \(current status: awaiting_human_test\)$/,
+    );
+  }
+
+  const seed = await callTool(url, "tickets_claim", { id: "T-BASE-042", actor: "worker-ai:hand" });
+  assert.ok(seed.ok);
+  store.write(
+    seed.path,
+    store.read(seed.path)!.replace(/human_testing_steps:\n(  - .*\n)+/, "human_testing_steps: []\n"),
+  );
+  const untestable = await callTool(url, "tickets_handoff", {
+    id: "T-BASE-042",
+    actor: "worker-ai:hand",
+    summary: "Nothing to test",
+  });
+  assert.equal(
+    untestable.error,
+    "human_testing_steps is empty; add the steps with tickets.update before handing off",
+  );
+});
+
+test("ticket MCP handoff with a custom layout", async (t) => {
+  const layout = `statuses:
+  - { name: todo, folder: todo }
+  - { name: doing, folder: doing }
+  - { name: review, folder: review }
+  - { name: shipped, folder: shipped, terminal: true }
+required_sections: ["## Summary", "## Notes", "## Testing"]
+defaults:
+  status: todo
+claim: { from: todo, to: doing }
+`;
+  const handOffOn = async (config: string) => {
+    const { url } = await startMemoryServer(t, {
+      fixtures: false,
+      files: { ".ticket-mcp.yaml": config },
+    });
+    const created = await callTool(url, "tickets_create", {
+      id: "T-LAYOUT-1",
+      title: "Layout ticket",
+      area: "tools",
+      intent: "Hand off under a custom layout.",
+      requirements: ["Use the handoff config."],
+      human_testing_steps: ["Open the review column."],
+      constraints: ["None."],
+      key_files: ["src/project_config.ts"],
+    });
+    assert.ok(created.ok, JSON.stringify(created));
+    const claimed = await callTool(url, "tickets_claim", { id: "T-LAYOUT-1", actor: "worker-ai:lay" });
+    assert.ok(claimed.ok, JSON.stringify(claimed));
+    const handoff = await callTool(url, "tickets_handoff", {
+      id: "T-LAYOUT-1",
+      actor: "worker-ai:lay",
+      summary: "Ready for review",
+    });
+    return { url, handoff };
+  };
+
+  const noStatus = await handOffOn(layout);
+  assert.equal(
+    noStatus.handoff.error,
+    "Handoff status awaiting_human_test is not a configured status; set handoff.to in tickets/.ticket-mcp.yaml",
+  );
+
+  const noSections = await handOffOn(`${layout}handoff: { to: review }\n`);
+  assert.equal(
+    noSections.handoff.error,
+    "Handoff sections are not in required_sections: ## Implementation Notes, ## Human Testing Steps; set handoff.notes_section and handoff.testing_section in tickets/.ticket-mcp.yaml",
+  );
+
+  const configured = await handOffOn(
+    `${layout}handoff: { to: review, notes_section: "## Notes", testing_section: "## Testing" }\n`,
+  );
+  assert.ok(configured.handoff.ok, JSON.stringify(configured.handoff));
+  assert.equal(path.basename(path.dirname(configured.handoff.path)), "review");
+  const ticket = await callTool(configured.url, "tickets_get", { id: "T-LAYOUT-1" });
+  assert.equal(ticket.frontmatter.status, "review");
+  assert.match(ticket.body, /## Notes\n\nReady for review\n/);
+  assert.match(ticket.body, /## Testing\n\n1\. Open the review column\.\n/);
+  assert.ok(!ticket.body.includes("## Implementation Notes"));
+});
@@ -1,15 +1,14 @@
 import { useEffect, useMemo, useState } from "react";
 import {
+  getConfig,
   getTicket,
+  listProjects,
   listTickets,
   moveTicket,
+  setActiveProject,
   updateTicket,
 } from "./api";
-import {
-  TicketStatus,
-  TicketStatusValues,
-  TicketFrontmatter,
-} from "@ticket/shared/schema";
+import { TicketFrontmatter } from "@ticket/shared/schema";
 
 type TicketSummary = {
   id: string;
@@ -18,6 +17,7 @@ type TicketSummary = {
   area: string;
   epic: string;
   path: string;
+  revision?: string;
   created_at?: string;
   updated_at?: string;
   intent?: string;
@@ -26,29 +26,24 @@ type TicketSummary = {
 
 type TicketDetail = {
   path: string;
+  revision?: string;
   frontmatter: TicketFrontmatter;
   body: string;
   issues?: string[];
   parse_error?: string;
 };
 
-const STATUS_COLUMNS = [
-  "pending",
-  "in_progress",
-  "blocked",
-  "awaiting_human_test",
-  "done",
-  "archived",
-];
+type StatusColumn = { name: string; label: string };
 
-const statusLabels: Record<string, string> = {
-  pending: "Pending",
-  in_progress: "In Progress",
-  blocked: "Blocked",
-  awaiting_human_test: "Awaiting Test",
-  done: "Done",
-  archived: "Archived",
-};
+// Until tickets.config answers (and for servers without it).
+const DEFAULT_COLUMNS: StatusColumn[] = [
+  { name: "pending", label: "Pending" },
+  { name: "in_progress", label: "In Progress" },
+  { name: "blocked", label: "Blocked" },
+  { name: "awaiting_human_test", label: "Awaiting Test" },
+  { name: "done", label: "Done" },
+  { name: "archived", label: "Archived" },
+];
 
 export default function App() {
   const [tickets, setTickets] = useState<TicketSummary[]>([]);
@@ -63,10 +58,39 @@ export default function App() {
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [dragOver, setDragOver] = useState<string | null>(null);
+  const [projects, setProjects] = useState<string[]>([]);
+  const [project, setProject] = useState("");
+  const [columns, setColumns] = useState<StatusColumn[]>(DEFAULT_COLUMNS);
+
+  useEffect(() => {
+    listProjects()
+      .then((payload) => {
+        setProjects((payload?.projects ?? []).map((entry: any) => entry.name));
+        setProject(payload?.default ?? "");
+      })
+      .catch(() => setProjects([]));
+  }, []);
+
+  useEffect(() => {
+    getConfig()
+      .then((payload) => {
+        if (!Array.isArray(payload?.statuses)) return;
+        setColumns(
+          payload.statuses.map((status: any) => ({ name: status.name, label: status.label })),
+        );
+      })
+      .catch(() => setColumns(DEFAULT_COLUMNS));
+  }, [project]);
 
   useEffect(() => {
     loadTickets();
-  }, [filters.text, filters.area, filters.epic, filters.status]);
+  }, [project, filters.text, filters.area, filters.epic, filters.status]);
+
+  function switchProject(name: string) {
+    setActiveProject(name || null);
+    setSelected(null);
+    setProject(name);
+  }
 
   async function loadTickets() {
     setLoading(true);
@@ -98,18 +122,22 @@ export default function App() {
     try {
       const currentStatus = selected.frontmatter.status;
       let targetPath = selected.path;
+      let revision = selected.revision;
       if (update.status !== currentStatus) {
         const move = await moveTicket({
           path: selected.path,
           to_status: update.status,
+          expected_revision: revision,
         });
         if (move?.error) throw new Error(move.error);
         targetPath = move.path ?? targetPath;
+        revision = move.revision ?? revision;
       }
 
       const result = await updateTicket({
         path: targetPath,
         patch: { area: update.area, epic: update.epic },
+        expected_revision: revision,
       });
       if (result?.error) throw new Error(result.error);
 
@@ -135,7 +163,11 @@ export default function App() {
     );
 
     try {
-      const result = await moveTicket({ path: ticket.path, to_status: toStatus });
+      const result = await moveTicket({
+        path: ticket.path,
+        to_status: toStatus,
+        expected_revision: ticket.revision,
+      });
       if (result?.error) throw new Error(result.error);
       await loadTickets();
     } catch (err: any) {
@@ -167,13 +199,13 @@ export default function App() {
 
   const grouped = useMemo(() => {
     const map: Record<string, TicketSummary[]> = {};
-    for (const status of STATUS_COLUMNS) map[status] = [];
+    for (const column of columns) map[column.name] = [];
     for (const ticket of tickets) {
-      const key = map[ticket.status] ? ticket.status : "pending";
-      map[key].push(ticket);
+      const key = map[ticket.status] ? ticket.status : columns[0]?.name;
+      map[key]?.push(ticket);
     }
     return map;
-  }, [tickets]);
+  }, [tickets, columns]);
 
   return (
     <div className="app">
@@ -188,6 +220,18 @@ export default function App() {
       </header>
 
       <section className="filters">
+        {projects.length > 1 && (
+          <select
+            value={project}
+            onChange={(event) => switchProject(event.target.value)}
+          >
+            {projects.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        )}
         <input
           className="search"
           placeholder="Search by id, title, intent..."
@@ -223,7 +267,7 @@ export default function App() {
           ))}
         </select>
         <div className="status-filter">
-          {STATUS_COLUMNS.map((status) => (
+          {columns.map(({ name: status, label }) => (
             <label key={status}>
               <input
                 type="checkbox"
@@ -237,7 +281,7 @@ export default function App() {
                   });
                 }}
               />
-              {statusLabels[status]}
+              {label}
             </label>
           ))}
         </div>
@@ -246,7 +290,7 @@ export default function App() {
       {error && <div className="error">{error}</div>}
 
       <main className="board">
-        {STATUS_COLUMNS.map((status) => (
+        {columns.map(({ name: status, label }) => (
           <section
             key={status}
             className={`column ${dragOver === status ? "drag-over" : ""}`}
@@ -269,7 +313,7 @@ export default function App() {
             }}
           >
             <header>
-              <h2>{statusLabels[status]}</h2>
+              <h2>{label}</h2>
               <span>{grouped[status]?.length ?? 0}</span>
             </header>
             <div className="cards">
@@ -330,16 +374,16 @@ export default function App() {
                         ...prev,
                         frontmatter: {
                           ...prev.frontmatter,
-                          status: event.target.value as TicketStatus,
+                          status: event.target.value,
                         },
                       }
                       : prev,
                   )
                 }
               >
-                {TicketStatusValues.map((status: string) => (
-                  <option key={status} value={status}>
-                    {statusLabels[status] ?? status}
+                {columns.map(({ name, label }) => (
+                  <option key={name} value={name}>
+                    {label}
                   </option>
                 ))}
               </select>
@@ -1,6 +1,9 @@
 const MCP_URL =
   import.meta.env.VITE_TICKET_MCP_URL ?? "http://127.0.0.1:3334/mcp";
 
+// Edits from the board are made by a person, so human-only moves work.
+const UI_ACTOR = import.meta.env.VITE_TICKET_ACTOR ?? "human:ui";
+
 type RpcResponse = {
   result?: {
     content?: { type: string; text?: string }[];
@@ -10,6 +13,12 @@ type RpcResponse = {
 };
 
 let requestId = 1;
+let activeProject: string | null = null;
+
+/** Project sent with every tool call; null means the server's default. */
+export function setActiveProject(name: string | null) {
+  activeProject = name;
+}
 
 async function mcpRpc(method: string, params?: any) {
   const payload = {
@@ -33,13 +42,22 @@ async function mcpRpc(method: string, params?: any) {
 }
 
 async function callTool(name: string, args?: any) {
-  const result = await mcpRpc("tools/call", { name, arguments: args ?? {} });
+  const toolArgs = activeProject ? { ...args, project: activeProject } : args ?? {};
+  const result = await mcpRpc("tools/call", { name, arguments: toolArgs });
   if (result?.data !== undefined) return result.data;
   const text = result?.content?.[0]?.text;
   if (!text) return null;
   return JSON.parse(text);
 }
 
+export async function listProjects() {
+  return await callTool("tickets.projects");
+}
+
+export async function getConfig() {
+  return await callTool("tickets.config");
+}
+
 export async function listTickets(filters: any) {
   return await callTool("tickets.list", filters);
 }
@@ -49,11 +67,11 @@ export async function getTicket(idOrPath: { id?: string; path?: string }) {
 }
 
 export async function updateTicket(args: any) {
-  return await callTool("tickets.update", args);
+  return await callTool("tickets.update", { actor: UI_ACTOR, ...args });
 }
 
 export async function moveTicket(args: any) {
-  return await callTool("tickets.move", args);
+  return await callTool("tickets.move", { actor: UI_ACTOR, ...args });
 }
 
 export async function validateTicket(args: any) {